@@ -0,0 +1,124 @@
+/**
+ * QQ Channel access control
+ * Decides who may talk to the bot and who may run control commands
+ */
+
+import type { AccessPolicyConfig, DmPolicy, IdFilter, MessageScene, QQInboundMessage } from './types.js';
+
+// Default QQ role ids: 2 is 超级管理员, 4 is 频道主
+export const DEFAULT_ADMIN_ROLES = ['2', '4'];
+
+export const DEFAULT_DM_POLICY: DmPolicy = 'open';
+
+// What access is decided on, roles are only known for guild member messages
+// and are left undefined for events that do not carry them (reactions, button clicks, forum posts)
+// until they are looked up
+export interface AccessSubject {
+  scene: MessageScene;
+  userId: string;
+  guildId?: string;
+  channelId?: string;
+  roles?: string[];
+}
+
+export type AccessDecision = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Build the access subject of an inbound message
+ */
+export function accessSubjectOf(inbound: QQInboundMessage): AccessSubject {
+  switch (inbound.scene) {
+    case 'channel':
+    case 'direct':
+      return {
+        scene: inbound.scene,
+        userId: inbound.message.author.id,
+        guildId: inbound.message.guild_id || undefined,
+        channelId: inbound.message.channel_id,
+        roles: inbound.message.member?.roles,
+      };
+    case 'group':
+      return { scene: 'group', userId: inbound.message.author.member_openid };
+    case 'c2c':
+      return { scene: 'c2c', userId: inbound.message.author.user_openid };
+  }
+}
+
+/**
+ * Whether the sender's roles must be looked up before deciding, i.e. a guild event without roles
+ * while a role filter is configured
+ */
+export function needsMemberRoles(policy: AccessPolicyConfig | undefined, subject: AccessSubject): boolean {
+  return subject.scene === 'channel' && subject.roles === undefined && !!subject.guildId && hasEntries(policy?.roles);
+}
+
+/**
+ * Decide whether a message may reach the agent
+ * Direct and C2C messages follow the DM policy, guild messages the guild, channel and role filters;
+ * senders whose roles are unknown are denied when a role filter is configured
+ */
+export function checkAccess(policy: AccessPolicyConfig | undefined, subject: AccessSubject): AccessDecision {
+  const userDecision = checkFilter(policy?.users, [subject.userId], 'user');
+  if (!userDecision.allowed) return userDecision;
+
+  if (subject.scene === 'direct' || subject.scene === 'c2c') {
+    const dmPolicy = policy?.dm?.policy ?? DEFAULT_DM_POLICY;
+    if (dmPolicy === 'disabled') {
+      return { allowed: false, reason: 'direct messages are disabled' };
+    }
+    if (dmPolicy === 'allowlist' && !(policy?.dm?.allowFrom ?? []).includes(subject.userId)) {
+      return { allowed: false, reason: `user ${subject.userId} is not in the DM allowlist` };
+    }
+    return { allowed: true };
+  }
+
+  // Group members are only known by openid, the user filter is all that applies
+  if (subject.scene === 'group') {
+    return { allowed: true };
+  }
+
+  const checks: AccessDecision[] = [
+    checkFilter(policy?.guilds, subject.guildId ? [subject.guildId] : [], 'guild'),
+    checkFilter(policy?.channels, subject.channelId ? [subject.channelId] : [], 'channel'),
+    checkRoles(policy?.roles, subject),
+  ];
+  return checks.find((decision) => !decision.allowed) ?? { allowed: true };
+}
+
+/**
+ * Whether a sender may run control commands
+ * Only configured admin users and roles may, guild admins and owners count as admins unless roles are configured
+ */
+export function isCommandAuthorized(policy: AccessPolicyConfig | undefined, subject: AccessSubject): boolean {
+  if (policy?.admins?.users?.includes(subject.userId)) return true;
+
+  const adminRoles = policy?.admins?.roles ?? DEFAULT_ADMIN_ROLES;
+  return (subject.roles ?? []).some((role) => adminRoles.includes(role));
+}
+
+function checkRoles(filter: IdFilter | undefined, subject: AccessSubject): AccessDecision {
+  if (subject.roles) return checkFilter(filter, subject.roles, 'role');
+  if (hasEntries(filter)) {
+    return { allowed: false, reason: `roles of user ${subject.userId} are unknown` };
+  }
+  return { allowed: true };
+}
+
+function hasEntries(filter: IdFilter | undefined): boolean {
+  return (filter?.allow?.length ?? 0) > 0 || (filter?.deny?.length ?? 0) > 0;
+}
+
+function checkFilter(filter: IdFilter | undefined, ids: string[], label: string): AccessDecision {
+  if (!filter) return { allowed: true };
+
+  const denied = ids.find((id) => filter.deny?.includes(id));
+  if (denied) {
+    return { allowed: false, reason: `${label} ${denied} is denied` };
+  }
+
+  if (filter.allow && filter.allow.length > 0 && !ids.some((id) => filter.allow!.includes(id))) {
+    return { allowed: false, reason: `${label} ${ids.join(', ') || '(none)'} is not allowed` };
+  }
+
+  return { allowed: true };
+}
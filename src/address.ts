@@ -0,0 +1,113 @@
+/**
+ * QQ Channel addresses
+ * One canonical string form for every conversation the bot can send to, used for From/To and outbound targets
+ */
+
+export const ADDRESS_PREFIX = 'qq-channel';
+
+export type QQAddress =
+  // Guild channel, channelId may be "#name" to be resolved through the directory
+  | { kind: 'channel'; channelId: string }
+  // Guild user reached through a DMS session, the source guild is needed to open one
+  | { kind: 'dm'; userId: string; sourceGuildId?: string }
+  | { kind: 'group'; groupOpenid: string }
+  | { kind: 'c2c'; openid: string }
+  | { kind: 'thread'; channelId: string; threadId: string };
+
+export type AddressKind = QQAddress['kind'];
+
+const ADDRESS_FORMATS: Record<AddressKind, string> = {
+  channel: `${ADDRESS_PREFIX}:channel:<channelId>`,
+  dm: `${ADDRESS_PREFIX}:dm:<userId>[@<guildId>]`,
+  group: `${ADDRESS_PREFIX}:group:<groupOpenid>`,
+  c2c: `${ADDRESS_PREFIX}:c2c:<openid>`,
+  thread: `${ADDRESS_PREFIX}:thread:<channelId>/<threadId>`,
+};
+
+// Ids never contain separators or whitespace
+const ID_PATTERN = /^[^\s:@/]+$/;
+
+/**
+ * Format an address as its canonical string
+ */
+export function formatAddress(address: QQAddress): string {
+  switch (address.kind) {
+    case 'channel':
+      return `${ADDRESS_PREFIX}:channel:${address.channelId}`;
+    case 'dm':
+      return address.sourceGuildId
+        ? `${ADDRESS_PREFIX}:dm:${address.userId}@${address.sourceGuildId}`
+        : `${ADDRESS_PREFIX}:dm:${address.userId}`;
+    case 'group':
+      return `${ADDRESS_PREFIX}:group:${address.groupOpenid}`;
+    case 'c2c':
+      return `${ADDRESS_PREFIX}:c2c:${address.openid}`;
+    case 'thread':
+      return `${ADDRESS_PREFIX}:thread:${address.channelId}/${address.threadId}`;
+  }
+}
+
+/**
+ * Parse an address, the qq-channel: prefix is optional
+ * A bare id is a channel id and "#name" a channel name, anything else malformed throws
+ */
+export function parseAddress(target: string): QQAddress {
+  const trimmed = target.trim();
+  const body = trimmed.startsWith(`${ADDRESS_PREFIX}:`) ? trimmed.slice(ADDRESS_PREFIX.length + 1) : trimmed;
+
+  if (body.startsWith('#') && body.length > 1) {
+    return { kind: 'channel', channelId: body };
+  }
+  if (ID_PATTERN.test(body)) {
+    return { kind: 'channel', channelId: body };
+  }
+
+  const separator = body.indexOf(':');
+  const kind = body.slice(0, separator);
+  const rest = body.slice(separator + 1);
+
+  switch (separator > 0 ? kind : '') {
+    case 'channel':
+      if (rest.startsWith('#') && rest.length > 1) return { kind: 'channel', channelId: rest };
+      return { kind: 'channel', channelId: requireId(rest, target, 'channel') };
+
+    case 'dm': {
+      const [userId, sourceGuildId, ...extra] = rest.split('@');
+      if (extra.length > 0) throw invalidAddress(target, 'dm');
+      return {
+        kind: 'dm',
+        userId: requireId(userId, target, 'dm'),
+        sourceGuildId: sourceGuildId === undefined ? undefined : requireId(sourceGuildId, target, 'dm'),
+      };
+    }
+
+    case 'group':
+      return { kind: 'group', groupOpenid: requireId(rest, target, 'group') };
+
+    case 'c2c':
+      return { kind: 'c2c', openid: requireId(rest, target, 'c2c') };
+
+    case 'thread': {
+      // Thread ids are opaque and may contain "/", channel ids never do
+      const slash = rest.indexOf('/');
+      const threadId = rest.slice(slash + 1);
+      if (slash < 0 || !threadId || /\s/.test(threadId)) throw invalidAddress(target, 'thread');
+      return { kind: 'thread', channelId: requireId(rest.slice(0, slash), target, 'thread'), threadId };
+    }
+
+    default:
+      throw invalidAddress(target);
+  }
+}
+
+function requireId(id: string, target: string, kind: AddressKind): string {
+  if (!ID_PATTERN.test(id)) throw invalidAddress(target, kind);
+  return id;
+}
+
+function invalidAddress(target: string, kind?: AddressKind): Error {
+  if (kind) {
+    return new Error(`Invalid QQ ${kind} address "${target}", expected ${ADDRESS_FORMATS[kind]}`);
+  }
+  return new Error(`Invalid QQ address "${target}", expected one of: ${Object.values(ADDRESS_FORMATS).join(', ')}`);
+}
@@ -3,12 +3,30 @@
  */
 
 import {
-  TokenResponse,
   GatewayResponse,
   SendMessageRequest,
   SendMessageResponse,
+  SendV2MessageResponse,
   DMSResponse,
+  MessageMarkdown,
+  MessageScene,
+  MessageType,
+  UploadMediaRequest,
+  UploadMediaResponse,
+  Emoji,
+  ReactionUsersResponse,
+  CreateThreadRequest,
+  CreateThreadResponse,
+  ThreadDetail,
+  MessagePayload,
+  InteractionResult,
+  Guild,
+  Channel,
+  GuildMember,
 } from '../types.js';
+import { RequestScheduler, SchedulerConfig, routeOf, sleep } from './scheduler.js';
+import { auditIdOf, parseApiError } from './errors.js';
+import { TokenManager, TokenListener } from './token.js';
 
 // Token endpoint is the same for both sandbox and production
 const TOKEN_ENDPOINT = 'https://bots.qq.com/app/getAppAccessToken';
@@ -20,85 +38,137 @@ export interface QQClientConfig {
   appId: string;
   appSecret: string;
   sandbox?: boolean;
+  rateLimit?: Partial<SchedulerConfig>;
+  // Override the API host and token endpoint, e.g. to point at a local simulator
+  apiBase?: string;
+  tokenEndpoint?: string;
 }
 
+// Statuses worth retrying: rate limited or server side failures
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+// Methods that are safe to repeat after a failure the server may already have acted on
+// POST sends messages and PUT creates threads and answers interactions, repeating them could do it twice
+const IDEMPOTENT_METHODS = ['GET', 'DELETE'];
+
+// Connection errors that mean the request never reached the server
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'];
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
 export class QQApiClient {
-  private appId: string;
-  private appSecret: string;
   private baseUrl: string;
-  private accessToken: string | null = null;
-  private tokenExpiresAt: number = 0;
+  private tokens: TokenManager;
+  private scheduler: RequestScheduler;
 
   constructor(config: QQClientConfig) {
-    this.appId = config.appId;
-    this.appSecret = config.appSecret;
-    this.baseUrl = config.sandbox ? SANDBOX_API_BASE : PRODUCTION_API_BASE;
+    this.baseUrl = config.apiBase ?? (config.sandbox ? SANDBOX_API_BASE : PRODUCTION_API_BASE);
+    this.tokens = new TokenManager({
+      appId: config.appId,
+      appSecret: config.appSecret,
+      tokenEndpoint: config.tokenEndpoint ?? TOKEN_ENDPOINT,
+    });
+    this.scheduler = new RequestScheduler(config.rateLimit);
   }
 
   /**
    * Get a valid access token, refreshing if necessary
-   * QQ bots use a proprietary token endpoint, not standard OAuth 2.0
    * @param forceRefresh - Force refresh the token even if not expired
    */
   async getAccessToken(forceRefresh = false): Promise<string> {
-    const now = Date.now();
-    // Refresh token 60 seconds before expiry (as recommended by QQ docs)
-    if (!forceRefresh && this.accessToken && this.tokenExpiresAt > now + 60 * 1000) {
-      return this.accessToken;
-    }
-
-    console.log('[QQ-Channel] Fetching new access token...');
-
-    const response = await fetch(TOKEN_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        appId: String(this.appId),
-        clientSecret: this.appSecret,
-      }),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Failed to get access token: ${response.status} ${text}`);
-    }
-
-    const data = (await response.json()) as TokenResponse;
-    this.accessToken = data.access_token;
-    this.tokenExpiresAt = now + data.expires_in * 1000;
+    return this.tokens.getToken(forceRefresh);
+  }
 
-    console.log(`[QQ-Channel] Access token obtained, expires in ${data.expires_in}s`);
+  /**
+   * Call the listener whenever the access token rotates, returns a function that removes it
+   */
+  onTokenRotated(listener: TokenListener): () => void {
+    return this.tokens.onRotated(listener);
+  }
 
-    return this.accessToken;
+  /**
+   * Stop background token refreshes, the client is not used afterwards
+   */
+  close(): void {
+    this.tokens.stop();
   }
 
   /**
    * Make an authenticated API request
+   * Every attempt is paced by the scheduler, failures that are safe to repeat are retried with backoff,
+   * and a 401 is retried once with a fresh token
+   * Failures that are not retried are thrown as QQApiError
    */
   private async request<T>(
     method: string,
     path: string,
     body?: unknown
   ): Promise<T> {
-    const token = await this.getAccessToken();
+    let tokenRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.getAccessToken();
 
-    const response = await fetch(`${this.baseUrl}${path}`, {
+      let response: Response;
+      try {
+        // Each attempt takes its own route and conversation tokens, so retries are paced like new requests
+        response = await this.scheduler.schedule(method, path, () => this.send(method, path, body, token));
+      } catch (error) {
+        if (attempt >= MAX_RETRIES || !isRetryableNetworkError(method, error)) throw error;
+        console.warn(`[QQ-Channel] ${method} ${path} failed (${(error as Error).message}), retrying`);
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.ok) {
+        // PUT and DELETE endpoints answer 204 without a body
+        const text = await response.text();
+        const data = text ? JSON.parse(text) : undefined;
+        const auditId = auditIdOf(data);
+        return (auditId ? heldForAudit(auditId) : data) as T;
+      }
+
+      // The token may have been revoked or rotated early, refresh it once
+      if (response.status === 401 && !tokenRefreshed) {
+        tokenRefreshed = true;
+        console.warn(`[QQ-Channel] ${method} ${path} returned 401, refreshing access token`);
+        await this.tokens.invalidate(token);
+        continue;
+      }
+
+      if (isRetryableStatus(method, response.status) && attempt < MAX_RETRIES) {
+        const delay = backoffDelay(attempt, response.headers.get('retry-after'));
+        console.warn(`[QQ-Channel] ${method} ${path} returned ${response.status}, retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      const text = await response.text();
+      const error = parseApiError(response.status, method, routeOf(path), text, response.headers.get('x-tps-trace-id'));
+      // Messages held for review are accepted, the message id arrives later with MESSAGE_AUDIT_PASS
+      if (error.auditId) {
+        return heldForAudit(error.auditId) as T;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send one attempt of a request
+   */
+  private send(method: string, path: string, body: unknown, token: string): Promise<Response> {
+    // Multipart bodies set their own Content-Type with the boundary
+    const isMultipart = body instanceof FormData;
+
+    return fetch(`${this.baseUrl}${path}`, {
       method,
       headers: {
         Authorization: `QQBot ${token}`,
-        'Content-Type': 'application/json',
+        ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
       },
-      body: body ? JSON.stringify(body) : undefined,
+      body: isMultipart ? body : body ? JSON.stringify(body) : undefined,
     });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`API request failed: ${response.status} ${text}`);
-    }
-
-    return (await response.json()) as T;
   }
 
   /**
@@ -122,6 +192,42 @@ export class QQApiClient {
     );
   }
 
+  /**
+   * Get a message from a channel
+   */
+  async getChannelMessage(channelId: string, messageId: string): Promise<MessagePayload> {
+    const response = await this.request<{ message: MessagePayload }>(
+      'GET',
+      `/channels/${channelId}/messages/${messageId}`
+    );
+    return response.message;
+  }
+
+  /**
+   * Get a member of a guild, including their role ids
+   */
+  async getGuildMember(guildId: string, userId: string): Promise<GuildMember> {
+    return this.request<GuildMember>('GET', `/guilds/${guildId}/members/${userId}`);
+  }
+
+  /**
+   * List guilds the bot has joined, one page of at most 100 ordered by id
+   * Pass the last guild id as after to fetch the next page
+   */
+  async listGuilds(options: { after?: string; limit?: number } = {}): Promise<Guild[]> {
+    const query = new URLSearchParams({ limit: String(options.limit ?? 100) });
+    if (options.after) query.set('after', options.after);
+
+    return this.request<Guild[]>('GET', `/users/@me/guilds?${query}`);
+  }
+
+  /**
+   * List the channels of a guild
+   */
+  async listChannels(guildId: string): Promise<Channel[]> {
+    return this.request<Channel[]>('GET', `/guilds/${guildId}/channels`);
+  }
+
   /**
    * Create a DMS (Direct Message Session)
    */
@@ -149,6 +255,280 @@ export class QQApiClient {
     );
   }
 
+  /**
+   * Send a message to a QQ group
+   */
+  async sendGroupMessage(
+    groupOpenid: string,
+    message: SendMessageRequest
+  ): Promise<SendV2MessageResponse> {
+    return this.request<SendV2MessageResponse>(
+      'POST',
+      `/v2/groups/${groupOpenid}/messages`,
+      message
+    );
+  }
+
+  /**
+   * Send a C2C (one-to-one) message to a user
+   */
+  async sendC2CMessage(
+    openid: string,
+    message: SendMessageRequest
+  ): Promise<SendV2MessageResponse> {
+    return this.request<SendV2MessageResponse>(
+      'POST',
+      `/v2/users/${openid}/messages`,
+      message
+    );
+  }
+
+  /**
+   * Send a message with a local image to a channel, uploaded as multipart file_image
+   */
+  async sendChannelFileImage(
+    channelId: string,
+    image: Blob,
+    filename: string,
+    message: SendMessageRequest
+  ): Promise<SendMessageResponse> {
+    return this.request<SendMessageResponse>(
+      'POST',
+      `/channels/${channelId}/messages`,
+      toMultipart(message, image, filename)
+    );
+  }
+
+  /**
+   * Send a direct message with a local image, uploaded as multipart file_image
+   */
+  async sendDirectFileImage(
+    guildId: string,
+    image: Blob,
+    filename: string,
+    message: SendMessageRequest
+  ): Promise<SendMessageResponse> {
+    return this.request<SendMessageResponse>(
+      'POST',
+      `/dms/${guildId}/messages`,
+      toMultipart(message, image, filename)
+    );
+  }
+
+  /**
+   * Upload a rich media file for a QQ group, the returned file_info is sent with msg_type 7
+   */
+  async uploadGroupMedia(
+    groupOpenid: string,
+    upload: UploadMediaRequest
+  ): Promise<UploadMediaResponse> {
+    return this.request<UploadMediaResponse>(
+      'POST',
+      `/v2/groups/${groupOpenid}/files`,
+      upload
+    );
+  }
+
+  /**
+   * Upload a rich media file for a C2C chat, the returned file_info is sent with msg_type 7
+   */
+  async uploadC2CMedia(
+    openid: string,
+    upload: UploadMediaRequest
+  ): Promise<UploadMediaResponse> {
+    return this.request<UploadMediaResponse>(
+      'POST',
+      `/v2/users/${openid}/files`,
+      upload
+    );
+  }
+
+  /**
+   * Add an emoji reaction to a channel message
+   */
+  async addReaction(channelId: string, messageId: string, emoji: Emoji): Promise<void> {
+    await this.request<void>(
+      'PUT',
+      `/channels/${channelId}/messages/${messageId}/reactions/${emoji.type}/${emoji.id}`
+    );
+  }
+
+  /**
+   * Remove the bot's emoji reaction from a channel message
+   */
+  async removeReaction(channelId: string, messageId: string, emoji: Emoji): Promise<void> {
+    await this.request<void>(
+      'DELETE',
+      `/channels/${channelId}/messages/${messageId}/reactions/${emoji.type}/${emoji.id}`
+    );
+  }
+
+  /**
+   * List users who reacted to a channel message with an emoji
+   * Pass the returned cookie to fetch the next page until is_end
+   */
+  async getReactionUsers(
+    channelId: string,
+    messageId: string,
+    emoji: Emoji,
+    options: { cookie?: string; limit?: number } = {}
+  ): Promise<ReactionUsersResponse> {
+    const query = new URLSearchParams({ limit: String(options.limit ?? 20) });
+    if (options.cookie) query.set('cookie', options.cookie);
+
+    return this.request<ReactionUsersResponse>(
+      'GET',
+      `/channels/${channelId}/messages/${messageId}/reactions/${emoji.type}/${emoji.id}?${query}`
+    );
+  }
+
+  /**
+   * Publish a thread in a forum channel
+   */
+  async createThread(
+    channelId: string,
+    thread: CreateThreadRequest
+  ): Promise<CreateThreadResponse> {
+    return this.request<CreateThreadResponse>(
+      'PUT',
+      `/channels/${channelId}/threads`,
+      thread
+    );
+  }
+
+  /**
+   * Get a forum thread
+   */
+  async getThread(channelId: string, threadId: string): Promise<ThreadDetail> {
+    const response = await this.request<{ thread: ThreadDetail }>(
+      'GET',
+      `/channels/${channelId}/threads/${threadId}`
+    );
+    return response.thread;
+  }
+
+  /**
+   * List threads in a forum channel
+   */
+  async listThreads(channelId: string): Promise<{ threads: ThreadDetail[]; is_finish: number }> {
+    return this.request<{ threads: ThreadDetail[]; is_finish: number }>(
+      'GET',
+      `/channels/${channelId}/threads`
+    );
+  }
+
+  /**
+   * Delete a forum thread
+   */
+  async deleteThread(channelId: string, threadId: string): Promise<void> {
+    await this.request<void>('DELETE', `/channels/${channelId}/threads/${threadId}`);
+  }
+
+  /**
+   * Acknowledge an interaction, QQ shows the button as failed if this is not sent
+   */
+  async acknowledgeInteraction(
+    interactionId: string,
+    code: InteractionResult = InteractionResult.Success
+  ): Promise<void> {
+    await this.request<void>('PUT', `/interactions/${interactionId}`, { code });
+  }
+
+  /**
+   * Recall a message the bot sent to a channel
+   * @param hideTip - Remove the message without leaving a "message recalled" tip
+   */
+  async deleteChannelMessage(channelId: string, messageId: string, hideTip = false): Promise<void> {
+    await this.request<void>(
+      'DELETE',
+      `/channels/${channelId}/messages/${messageId}?hidetip=${hideTip}`
+    );
+  }
+
+  /**
+   * Recall a direct message the bot sent
+   * @param hideTip - Remove the message without leaving a "message recalled" tip
+   */
+  async deleteDirectMessage(guildId: string, messageId: string, hideTip = false): Promise<void> {
+    await this.request<void>(
+      'DELETE',
+      `/dms/${guildId}/messages/${messageId}?hidetip=${hideTip}`
+    );
+  }
+
+  /**
+   * Recall a message the bot sent to a QQ group, only possible within 2 minutes of sending
+   */
+  async deleteGroupMessage(groupOpenid: string, messageId: string): Promise<void> {
+    await this.request<void>('DELETE', `/v2/groups/${groupOpenid}/messages/${messageId}`);
+  }
+
+  /**
+   * Recall a C2C message the bot sent, only possible within 2 minutes of sending
+   */
+  async deleteC2CMessage(openid: string, messageId: string): Promise<void> {
+    await this.request<void>('DELETE', `/v2/users/${openid}/messages/${messageId}`);
+  }
+
+  /**
+   * Recall a message in any conversation scene
+   * hideTip only applies to channel and direct messages, group and C2C recalls never leave a tip
+   */
+  async recallMessage(
+    scene: MessageScene,
+    targetId: string,
+    messageId: string,
+    hideTip = false
+  ): Promise<void> {
+    switch (scene) {
+      case 'channel':
+        return this.deleteChannelMessage(targetId, messageId, hideTip);
+      case 'direct':
+        return this.deleteDirectMessage(targetId, messageId, hideTip);
+      case 'group':
+        return this.deleteGroupMessage(targetId, messageId);
+      case 'c2c':
+        return this.deleteC2CMessage(targetId, messageId);
+    }
+  }
+
+  /**
+   * Send a message to any conversation scene
+   * targetId is the channel id, DMS guild id, group openid or user openid respectively
+   */
+  async sendMessage(
+    scene: MessageScene,
+    targetId: string,
+    message: SendMessageRequest
+  ): Promise<SendMessageResponse | SendV2MessageResponse> {
+    switch (scene) {
+      case 'channel':
+        return this.sendChannelMessage(targetId, message);
+      case 'direct':
+        return this.sendDirectMessage(targetId, message);
+      case 'group':
+        return this.sendGroupMessage(targetId, withMessageType(message));
+      case 'c2c':
+        return this.sendC2CMessage(targetId, withMessageType(message));
+    }
+  }
+
+  /**
+   * Send a markdown message, native or template based
+   */
+  async sendMarkdownMessage(
+    scene: MessageScene,
+    targetId: string,
+    markdown: MessageMarkdown,
+    options: Pick<SendMessageRequest, 'msg_id' | 'msg_seq'> = {}
+  ): Promise<SendMessageResponse | SendV2MessageResponse> {
+    return this.sendMessage(scene, targetId, {
+      ...options,
+      msg_type: MessageType.Markdown,
+      markdown,
+    });
+  }
+
   /**
    * Get the base URL being used
    */
@@ -156,3 +536,68 @@ export class QQApiClient {
     return this.baseUrl;
   }
 }
+
+/**
+ * Fill in msg_type for /v2 endpoints, which require it on every message
+ */
+function withMessageType(message: SendMessageRequest): SendMessageRequest {
+  if (message.msg_type !== undefined) return message;
+  return { ...message, msg_type: message.markdown ? MessageType.Markdown : MessageType.Text };
+}
+
+/**
+ * Response for a message held for review, it has an audit id instead of a message id
+ */
+function heldForAudit(auditId: string): Partial<SendMessageResponse> {
+  return { id: '', audit_id: auditId, timestamp: new Date().toISOString() };
+}
+
+/**
+ * Build a multipart body with the message fields and a file_image part
+ */
+function toMultipart(message: SendMessageRequest, image: Blob, filename: string): FormData {
+  const form = new FormData();
+
+  for (const [key, value] of Object.entries(message)) {
+    if (value === undefined || value === null) continue;
+    form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+  }
+
+  form.append('file_image', image, filename);
+  return form;
+}
+
+/**
+ * Whether a failed response is worth retrying
+ * A rate limited request was rejected outright, server failures are only retried when repeating is safe
+ */
+function isRetryableStatus(method: string, status: number): boolean {
+  if (status === 429) return true;
+  return IDEMPOTENT_METHODS.includes(method) && RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Whether a network error is worth retrying
+ * Non-idempotent requests are only retried when the connection was never made
+ */
+function isRetryableNetworkError(method: string, error: unknown): boolean {
+  // fetch rejects with a TypeError whose cause is the underlying socket or DNS error
+  if (!(error instanceof TypeError)) return false;
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+
+  const code = (error.cause as NodeJS.ErrnoException | undefined)?.code;
+  return code !== undefined && UNSENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Exponential backoff with jitter, honoring Retry-After when the server sends one
+ */
+function backoffDelay(attempt: number, retryAfter?: string | null): number {
+  const retryAfterSeconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
@@ -0,0 +1,160 @@
+/**
+ * QQ Channel API errors
+ * Decodes QQ's {code, message, trace_id} error bodies into categories callers can act on
+ */
+
+export type QQApiErrorCategory =
+  | 'auth'
+  | 'ip-whitelist'
+  | 'rate-limit'
+  | 'permission'
+  | 'content-rejected'
+  | 'reply-window-expired'
+  | 'quota'
+  | 'unknown';
+
+// Error body returned by the QQ open platform
+interface QQErrorBody {
+  code?: number;
+  message?: string;
+  trace_id?: string;
+  err_code?: number;
+  data?: { message_audit?: { audit_id?: string } };
+}
+
+// Known business error codes
+const CODE_CATEGORIES: Record<number, QQApiErrorCategory> = {
+  // check app privilege / access not pass
+  11252: 'permission',
+  11253: 'permission',
+  11264: 'permission',
+  11265: 'permission',
+  // 接口访问源 IP 不在白名单
+  11298: 'ip-whitelist',
+  // msg limit exceed
+  22009: 'rate-limit',
+  // URL 未报备
+  304003: 'content-rejected',
+  // 消息过期, the passive reply window of a guild message has closed
+  304027: 'reply-window-expired',
+  // 请求参数msg_id无效或越权, returned for group and C2C replies once the window has closed
+  40034024: 'reply-window-expired',
+};
+
+// Message fragments for codes not listed above, checked in order
+// Reply window expiry is only recognised by code, "expired" also describes tokens and uploaded files
+const MESSAGE_CATEGORIES: Array<[RegExp, QQApiErrorCategory]> = [
+  [/白名单|whitelist/i, 'ip-whitelist'],
+  [/token|鉴权|unauthori[sz]ed|appid|secret/i, 'auth'],
+  [/主动消息|配额|quota/i, 'quota'],
+  [/频率|超频|limit exceed|too many/i, 'rate-limit'],
+  [/违规|敏感|审核不通过|reject|illegal/i, 'content-rejected'],
+  [/权限|permission|forbidden/i, 'permission'],
+];
+
+export class QQApiError extends Error {
+  readonly status: number;
+  readonly method: string;
+  readonly route: string;
+  readonly code?: number;
+  readonly traceId?: string;
+  // Set when the message was not rejected but held for review
+  readonly auditId?: string;
+  readonly category: QQApiErrorCategory;
+
+  constructor(options: {
+    status: number;
+    method: string;
+    route: string;
+    code?: number;
+    message?: string;
+    traceId?: string;
+    auditId?: string;
+  }) {
+    const detail = options.message || `HTTP ${options.status}`;
+    const code = options.code !== undefined ? ` (code ${options.code})` : '';
+    const trace = options.traceId ? ` [trace_id ${options.traceId}]` : '';
+    super(`QQ API ${options.method} ${options.route} failed: ${options.status} ${detail}${code}${trace}`);
+
+    this.name = 'QQApiError';
+    this.status = options.status;
+    this.method = options.method;
+    this.route = options.route;
+    this.code = options.code;
+    this.traceId = options.traceId;
+    this.auditId = options.auditId;
+    this.category = classify(options.status, options.code, options.message);
+  }
+
+  /**
+   * Whether the error is caused by the bot's configuration rather than the message
+   */
+  isConfigurationError(): boolean {
+    return this.category === 'auth' || this.category === 'ip-whitelist' || this.category === 'permission';
+  }
+}
+
+/**
+ * Build a QQApiError from a failed response body, which is not always JSON
+ */
+export function parseApiError(
+  status: number,
+  method: string,
+  route: string,
+  text: string,
+  headerTraceId?: string | null
+): QQApiError {
+  let body: QQErrorBody;
+  try {
+    body = JSON.parse(text) as QQErrorBody;
+  } catch {
+    // Plain text or HTML error page from a proxy
+    body = { message: text.slice(0, 200) };
+  }
+
+  return new QQApiError({
+    status,
+    method,
+    route,
+    code: body.code ?? body.err_code,
+    message: body.message,
+    traceId: body.trace_id ?? headerTraceId ?? undefined,
+    auditId: auditIdOf(body),
+  });
+}
+
+/**
+ * Audit id of a message held for review (codes 304023 / 304024), if the body carries one
+ */
+export function auditIdOf(body: unknown): string | undefined {
+  return (body as QQErrorBody | undefined)?.data?.message_audit?.audit_id || undefined;
+}
+
+/**
+ * Whether an error is a QQApiError, optionally of one of the given categories
+ */
+export function isQQApiError(error: unknown, ...categories: QQApiErrorCategory[]): error is QQApiError {
+  return error instanceof QQApiError && (categories.length === 0 || categories.includes(error.category));
+}
+
+function classify(status: number, code: number | undefined, message: string | undefined): QQApiErrorCategory {
+  if (code !== undefined && CODE_CATEGORIES[code]) {
+    return CODE_CATEGORIES[code];
+  }
+
+  if (message) {
+    const match = MESSAGE_CATEGORIES.find(([pattern]) => pattern.test(message));
+    if (match) return match[1];
+  }
+
+  switch (status) {
+    case 401:
+      return 'auth';
+    case 403:
+      return 'permission';
+    case 429:
+      return 'rate-limit';
+    default:
+      return 'unknown';
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * QQ Channel HTTP request scheduler
+ * Paces requests with per-route and per-channel token buckets and bounds the number of queued requests
+ */
+
+export interface SchedulerConfig {
+  // Requests per second allowed on one route (method + path template)
+  routeRate: number;
+  // Requests per second allowed to one channel, DM, group or user
+  channelRate: number;
+  // Requests waiting for a token before new ones are rejected
+  maxQueue: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  routeRate: 20,
+  channelRate: 5,
+  maxQueue: 100,
+};
+
+// Buckets are pruned once this many exist
+const MAX_BUCKETS = 1000;
+
+// Collections whose next path segment is an id
+const ID_COLLECTIONS = ['channels', 'guilds', 'dms', 'groups', 'users', 'messages', 'threads', 'interactions', 'members', 'roles'];
+
+// Collections that identify a conversation for the per-channel bucket
+const CONVERSATION_COLLECTIONS = ['channels', 'dms', 'groups', 'users'];
+
+/**
+ * Token bucket that hands out reservations, so concurrent callers queue in order
+ */
+class TokenBucket {
+  private capacity: number;
+  private ratePerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(ratePerSecond: number) {
+    this.capacity = ratePerSecond;
+    this.ratePerMs = ratePerSecond / 1000;
+    this.tokens = ratePerSecond;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Reserve a token, returns how long to wait before using it
+   */
+  reserve(now: number = Date.now()): number {
+    this.refill(now);
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.ratePerMs);
+  }
+
+  /**
+   * Whether the bucket is full, i.e. unused since it last refilled
+   */
+  isIdle(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.ratePerMs);
+    this.updatedAt = now;
+  }
+}
+
+export class RequestScheduler {
+  private config: SchedulerConfig;
+  private buckets: Map<string, TokenBucket> = new Map();
+  private pending = 0;
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Run a request once the route and channel buckets allow it
+   * Rejects immediately when the queue is full, so bursts are smoothed but not unbounded
+   */
+  async schedule<T>(method: string, path: string, task: () => Promise<T>): Promise<T> {
+    if (this.pending >= this.config.maxQueue) {
+      throw new Error(`Request queue full (${this.config.maxQueue} pending), dropping ${method} ${routeOf(path)}`);
+    }
+
+    this.pending++;
+    try {
+      const keys = [`route:${method} ${routeOf(path)}`];
+      const conversation = conversationOf(path);
+      if (conversation) keys.push(`conversation:${conversation}`);
+
+      const delay = Math.max(...keys.map((key) => this.bucket(key).reserve()));
+      if (delay > 0) {
+        await sleep(delay);
+      }
+
+      return await task();
+    } finally {
+      this.pending--;
+    }
+  }
+
+  /**
+   * Number of requests currently queued or in flight
+   */
+  getPendingCount(): number {
+    return this.pending;
+  }
+
+  private bucket(key: string): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_BUCKETS) {
+        this.pruneIdleBuckets();
+      }
+      bucket = new TokenBucket(key.startsWith('route:') ? this.config.routeRate : this.config.channelRate);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private pruneIdleBuckets(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isIdle(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Path template of a request, with ids replaced by :id
+ */
+export function routeOf(path: string): string {
+  const segments = path.split('?')[0].split('/');
+  return segments
+    .map((segment, index) => {
+      const previous = segments[index - 1];
+      if (segment.startsWith('@')) return segment;
+      if (previous && ID_COLLECTIONS.includes(previous)) return ':id';
+      // /reactions/{type}/{id}
+      if (previous === 'reactions' || segments[index - 2] === 'reactions') return ':id';
+      return segment;
+    })
+    .join('/');
+}
+
+/**
+ * Conversation a request targets, e.g. "channels:123", or null for global routes
+ */
+function conversationOf(path: string): string | null {
+  const segments = path.split('?')[0].split('/');
+  for (let index = 0; index < segments.length - 1; index++) {
+    const id = segments[index + 1];
+    if (CONVERSATION_COLLECTIONS.includes(segments[index]) && id && !id.startsWith('@')) {
+      return `${segments[index]}:${id}`;
+    }
+  }
+  return null;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
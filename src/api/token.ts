@@ -0,0 +1,184 @@
+/**
+ * QQ Channel access token manager
+ * One manager per app: concurrent refreshes share one token request, and the token is refreshed
+ * ahead of expiry so requests and gateway reconnects rarely wait for it
+ */
+
+import type { TokenResponse } from '../types.js';
+import { parseApiError, QQApiError } from './errors.js';
+
+export interface TokenManagerConfig {
+  appId: string;
+  appSecret: string;
+  tokenEndpoint: string;
+}
+
+export type TokenListener = (token: string) => void;
+
+// QQ issues a new token during the last 60 seconds of the old one, both stay valid until it expires
+const REFRESH_WINDOW_MS = 60 * 1000;
+// Proactive refresh runs a little inside that window so it gets the new token
+const PROACTIVE_REFRESH_MS = 50 * 1000;
+// Delay before retrying a failed proactive refresh
+const RETRY_DELAY_MS = 5 * 1000;
+
+export class TokenManager {
+  private config: TokenManagerConfig;
+  private token: string | null = null;
+  private expiresAt = 0;
+  private refreshing: Promise<string> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private listeners: Set<TokenListener> = new Set();
+  private stopped = false;
+
+  constructor(config: TokenManagerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get a valid access token, refreshing it when it is missing or about to expire
+   * @param forceRefresh - Refresh even if the current token has not expired
+   */
+  async getToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.token && this.expiresAt > Date.now() + REFRESH_WINDOW_MS) {
+      return this.token;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Refresh after the API rejected a token, unless it has already been replaced
+   */
+  async invalidate(rejectedToken: string): Promise<string> {
+    if (this.token && this.token !== rejectedToken) {
+      return this.token;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Call the listener whenever a new token is obtained, returns a function that removes it
+   */
+  onRotated(listener: TokenListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop proactive refreshes, getToken still works on demand
+   */
+  stop(): void {
+    this.stopped = true;
+    this.clearRefreshTimer();
+  }
+
+  /**
+   * Fetch a new token, concurrent callers share the same request
+   */
+  private refresh(): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchToken().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Request a token from the token endpoint
+   * QQ bots use a proprietary token endpoint, not standard OAuth 2.0
+   */
+  private async fetchToken(): Promise<string> {
+    console.log(`[QQ-Channel] Fetching new access token for app ${this.config.appId}...`);
+
+    const requestedAt = Date.now();
+    const response = await fetch(this.config.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        appId: String(this.config.appId),
+        clientSecret: this.config.appSecret,
+      }),
+    });
+
+    const text = await response.text();
+    const route = new URL(this.config.tokenEndpoint).pathname;
+    const traceId = response.headers.get('x-tps-trace-id');
+    if (!response.ok) {
+      throw parseApiError(response.status, 'POST', route, text, traceId);
+    }
+
+    // Errors may also come back as 200 with a {code, message} body
+    let data: Partial<TokenResponse>;
+    try {
+      data = JSON.parse(text) as Partial<TokenResponse>;
+    } catch {
+      throw parseApiError(response.status, 'POST', route, text, traceId);
+    }
+    if (!data.access_token) {
+      throw parseApiError(response.status, 'POST', route, text, traceId);
+    }
+
+    // expires_in is sent as a string, without a usable lifetime the refresh could not be scheduled
+    const expiresIn = Number(data.expires_in);
+    if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+      throw new QQApiError({
+        status: response.status,
+        method: 'POST',
+        route,
+        message: `token response has invalid expires_in ${JSON.stringify(data.expires_in)}`,
+        traceId: traceId ?? undefined,
+      });
+    }
+
+    const rotated = data.access_token !== this.token;
+    this.token = data.access_token;
+    this.expiresAt = requestedAt + expiresIn * 1000;
+    this.scheduleRefresh();
+
+    console.log(`[QQ-Channel] Access token obtained for app ${this.config.appId}, expires in ${expiresIn}s`);
+
+    if (rotated) {
+      for (const listener of this.listeners) {
+        try {
+          listener(this.token);
+        } catch (error) {
+          console.error('[QQ-Channel] Token listener failed:', error);
+        }
+      }
+    }
+
+    return this.token;
+  }
+
+  /**
+   * Refresh shortly before the token expires, retrying failures while it is still valid
+   */
+  private scheduleRefresh(delay = this.expiresAt - PROACTIVE_REFRESH_MS - Date.now()): void {
+    this.clearRefreshTimer();
+    if (this.stopped) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch((error) => {
+        console.error(`[QQ-Channel] Proactive token refresh failed for app ${this.config.appId}:`, error);
+        if (this.expiresAt > Date.now()) {
+          this.scheduleRefresh(RETRY_DELAY_MS);
+        }
+      });
+    }, Math.max(delay, RETRY_DELAY_MS));
+    // Pending refreshes should not keep the process alive
+    this.refreshTimer.unref();
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
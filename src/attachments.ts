@@ -0,0 +1,202 @@
+/**
+ * QQ Channel inbound attachment download and cache
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, stat, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MessageAttachment } from './types.js';
+
+// Downloaded attachments are cached here, keyed by a hash of their URL
+const MEDIA_CACHE_DIR = join(tmpdir(), 'qq-channel-media');
+
+export const DEFAULT_MEDIA_MAX_MB = 20;
+
+// A stalled download must not hold up the message it came with
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+
+// Cached files are removed once they are this old, or oldest first once the cache grows past its size limit
+const MEDIA_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MEDIA_CACHE_MAX_BYTES = 500 * 1024 * 1024;
+const MEDIA_CACHE_CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+let lastCacheCleanup = 0;
+
+// File extensions for sniffed content types
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/bmp': '.bmp',
+  'video/mp4': '.mp4',
+  'audio/silk': '.silk',
+  'audio/amr': '.amr',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+};
+
+export interface DownloadedAttachment {
+  path: string;
+  url: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Normalize an attachment URL, QQ guild attachments often omit the scheme
+ */
+export function attachmentUrl(attachment: MessageAttachment): string {
+  return /^https?:\/\//i.test(attachment.url) ? attachment.url : `https://${attachment.url.replace(/^\/\//, '')}`;
+}
+
+/**
+ * Placeholder for an attachment in the message body, e.g. <media:image>
+ */
+export function attachmentPlaceholder(contentType: string | undefined): string {
+  const kind = contentType?.split('/')[0];
+  switch (kind) {
+    case 'image':
+    case 'video':
+    case 'audio':
+      return `<media:${kind}>`;
+    default:
+      return '<media:file>';
+  }
+}
+
+/**
+ * Detect a content type from the first bytes of a file
+ */
+export function sniffContentType(data: Uint8Array): string | null {
+  const startsWith = (bytes: number[], offset = 0) =>
+    bytes.every((byte, index) => data[offset + index] === byte);
+  const ascii = (text: string, offset = 0) =>
+    startsWith(Array.from(text, (char) => char.charCodeAt(0)), offset);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii('GIF8')) return 'image/gif';
+  if (ascii('RIFF') && ascii('WEBP', 8)) return 'image/webp';
+  if (ascii('BM')) return 'image/bmp';
+  if (ascii('ftyp', 4)) return 'video/mp4';
+  // QQ voice messages are SILK, sometimes with a leading 0x02 byte
+  if (ascii('#!SILK') || ascii('#!SILK', 1)) return 'audio/silk';
+  if (ascii('#!AMR')) return 'audio/amr';
+  if (ascii('%PDF')) return 'application/pdf';
+  if (startsWith([0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  return null;
+}
+
+/**
+ * Download an attachment into the media cache
+ * Rejects attachments larger than maxBytes, using Content-Length up front and the streamed size as a fallback
+ */
+export async function downloadAttachment(
+  attachment: MessageAttachment,
+  maxBytes: number
+): Promise<DownloadedAttachment> {
+  const url = attachmentUrl(attachment);
+
+  if (attachment.size !== undefined && attachment.size > maxBytes) {
+    throw new Error(`Attachment too large: ${attachment.size} bytes (limit ${maxBytes})`);
+  }
+
+  // The timeout covers reading the body as well
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download attachment: ${response.status}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    throw new Error(`Attachment too large: ${declaredLength} bytes (limit ${maxBytes})`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Attachment too large: more than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const data = Buffer.concat(chunks);
+  const contentType =
+    sniffContentType(data) ??
+    attachment.content_type ??
+    response.headers.get('content-type')?.split(';')[0] ??
+    'application/octet-stream';
+
+  await mkdir(MEDIA_CACHE_DIR, { recursive: true });
+  const hash = createHash('sha1').update(url).digest('hex');
+  const path = join(MEDIA_CACHE_DIR, `${hash}${EXTENSIONS[contentType] ?? ''}`);
+  await writeFile(path, data);
+
+  cleanMediaCache().catch((error) => {
+    console.warn('[QQ-Channel] Failed to clean the media cache:', error);
+  });
+
+  return { path, url, contentType, size };
+}
+
+/**
+ * Remove expired files from the media cache, then the oldest ones while it is over its size limit
+ * Runs at most once per cleanup interval
+ */
+async function cleanMediaCache(now: number = Date.now()): Promise<void> {
+  if (now - lastCacheCleanup < MEDIA_CACHE_CLEANUP_INTERVAL_MS) return;
+  lastCacheCleanup = now;
+
+  const files = await Promise.all(
+    (await readdir(MEDIA_CACHE_DIR)).map(async (name) => {
+      const path = join(MEDIA_CACHE_DIR, name);
+      const info = await stat(path);
+      return { path, size: info.size, modifiedAt: info.mtimeMs };
+    })
+  );
+
+  // Newest first, so whatever is past the size limit is the oldest
+  files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+
+  let total = 0;
+  for (const file of files) {
+    total += file.size;
+    if (now - file.modifiedAt > MEDIA_CACHE_MAX_AGE_MS || total > MEDIA_CACHE_MAX_BYTES) {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Download every attachment of a message in parallel
+ * Results are in attachment order, attachments that fail to download are null
+ */
+export async function downloadAttachments(
+  attachments: MessageAttachment[],
+  maxBytes: number
+): Promise<Array<DownloadedAttachment | null>> {
+  return Promise.all(
+    attachments.map((attachment) =>
+      downloadAttachment(attachment, maxBytes).catch((error) => {
+        console.warn(`[QQ-Channel] Skipping attachment ${attachment.filename || attachment.url}:`, error);
+        return null;
+      })
+    )
+  );
+}
+
+/**
+ * Body line for an attachment beyond the first, e.g. <media:image> /path/to/file
+ * Points at the cached file, or at the URL when the download failed
+ */
+export function attachmentLine(attachment: MessageAttachment, downloaded: DownloadedAttachment | null): string {
+  return `${attachmentPlaceholder(downloaded?.contentType ?? attachment.content_type)} ${downloaded?.path ?? attachmentUrl(attachment)}`;
+}
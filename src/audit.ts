@@ -0,0 +1,112 @@
+/**
+ * QQ Channel message audit tracking
+ * Messages held for review are answered with an audit id, the message id arrives later with MESSAGE_AUDIT_PASS
+ */
+
+import type { MessageAuditPayload } from './types.js';
+
+// Held messages and audit results are forgotten after this long
+const AUDIT_RETENTION_MS = 60 * 60 * 1000;
+const MAX_TRACKED_AUDITS = 1000;
+
+// Outbound message waiting for its audit result
+export interface HeldMessage {
+  auditId: string;
+  targetId: string;
+  preview: string;
+  heldAt: number;
+}
+
+interface AuditResult {
+  passed: boolean;
+  messageId?: string;
+  resolvedAt: number;
+}
+
+export interface AuditStats {
+  pending: number;
+  passed: number;
+  rejected: number;
+  lastRejection: { auditId: string; channelId: string; preview: string | null; rejectedAt: Date } | null;
+}
+
+/**
+ * Correlates MESSAGE_AUDIT_PASS / MESSAGE_AUDIT_REJECT events with held outbound messages
+ */
+export class MessageAuditTracker {
+  private held: Map<string, HeldMessage> = new Map();
+  private results: Map<string, AuditResult> = new Map();
+  private passed = 0;
+  private rejected = 0;
+  private lastRejection: AuditStats['lastRejection'] = null;
+
+  /**
+   * Remember a message held for review
+   * The audit event can beat the send response, in which case the result is already known
+   */
+  hold(auditId: string, targetId: string, preview: string, now: number = Date.now()): void {
+    this.prune(now);
+    if (this.results.has(auditId)) return;
+
+    this.held.set(auditId, { auditId, targetId, preview: preview.slice(0, 100), heldAt: now });
+  }
+
+  /**
+   * Record an audit result, returns the held message it belongs to if it was sent by this account
+   */
+  resolve(audit: MessageAuditPayload, passed: boolean, now: number = Date.now()): HeldMessage | null {
+    this.prune(now);
+
+    const held = this.held.get(audit.audit_id) ?? null;
+    this.held.delete(audit.audit_id);
+    this.results.set(audit.audit_id, { passed, messageId: audit.message_id, resolvedAt: now });
+
+    if (passed) {
+      this.passed++;
+    } else {
+      this.rejected++;
+      this.lastRejection = {
+        auditId: audit.audit_id,
+        channelId: audit.channel_id,
+        preview: held?.preview ?? null,
+        rejectedAt: new Date(now),
+      };
+    }
+
+    return held;
+  }
+
+  /**
+   * Final message id for an id that may be an audit id, undefined while pending or once rejected
+   */
+  resolveMessageId(id: string): string | undefined {
+    if (this.held.has(id)) return undefined;
+
+    const result = this.results.get(id);
+    if (!result) return id;
+    return result.passed ? result.messageId : undefined;
+  }
+
+  getStats(): AuditStats {
+    return {
+      pending: this.held.size,
+      passed: this.passed,
+      rejected: this.rejected,
+      lastRejection: this.lastRejection,
+    };
+  }
+
+  private prune(now: number): void {
+    for (const [auditId, held] of this.held) {
+      if (now - held.heldAt > AUDIT_RETENTION_MS || this.held.size > MAX_TRACKED_AUDITS) {
+        this.held.delete(auditId);
+      }
+    }
+
+    for (const [auditId, result] of this.results) {
+      if (now - result.resolvedAt > AUDIT_RETENTION_MS || this.results.size > MAX_TRACKED_AUDITS) {
+        this.results.delete(auditId);
+      }
+    }
+  }
+}
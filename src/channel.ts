@@ -5,11 +5,45 @@
 
 import type { ChannelPlugin } from './sdk-types.js';
 import { QQApiClient } from './api/client.js';
-import { QQChannelRuntime, getQQRuntime } from './runtime.js';
-import type { QQChannelAccount, MessagePayload } from './types.js';
+import { isQQApiError } from './api/errors.js';
+import type { QQApiError, QQApiErrorCategory } from './api/errors.js';
+import { getQQRuntime } from './runtime.js';
+import { QQShardManager } from './shard-manager.js';
+import { INTENT_NAMES, resolveIntents, resolveMessageMode } from './intents.js';
+import { formatReplyMessage, toPlainText, toQQMarkdown } from './markdown.js';
+import { sendMediaMessage } from './media.js';
+import { applyOutboundMentions, parseMentions } from './mentions.js';
+import { formatReactionEvent, parseEmoji } from './reactions.js';
+import { buildThreadReply, normalizeForumEvent } from './forum.js';
+import { buildKeyboard, interactionToInbound, readKeyboardSpec, withKeyboard } from './keyboard.js';
+import { DEFAULT_MEDIA_MAX_MB, attachmentLine, attachmentPlaceholder, attachmentUrl, downloadAttachments } from './attachments.js';
+import { ActiveQuotaTracker, PassiveReplyBudget, ReplyBudgetRegistry } from './reply-budget.js';
+import { MessageAuditTracker } from './audit.js';
+import { SentMessageLog } from './sent-messages.js';
+import { GuildDirectory } from './directory.js';
+import { accessSubjectOf, checkAccess, isCommandAuthorized, needsMemberRoles } from './access.js';
+import type { AccessSubject } from './access.js';
+import { DmSessionStore } from './dm-sessions.js';
+import { formatAddress, parseAddress } from './address.js';
+import type { QQAddress } from './address.js';
+import type { QuotaKey, ReplyMode } from './reply-budget.js';
+import type {
+  AccessPolicyConfig,
+  DirectoryEvent,
+  ForumEvent,
+  InteractionPayload,
+  MessageAuditPayload,
+  MessageScene,
+  QQChannelAccount,
+  QQInboundMessage,
+  ReactionPayload,
+  SendMessageRequest,
+  SendMessageResponse,
+  SendV2MessageResponse,
+} from './types.js';
 
 // Store for active runtimes and API clients
-const activeRuntimes: Map<string, QQChannelRuntime> = new Map();
+const activeRuntimes: Map<string, QQShardManager> = new Map();
 const apiClients: Map<string, QQApiClient> = new Map();
 
 // Store for preventing duplicate replies to the same message
@@ -18,6 +52,94 @@ const REPLY_DEDUP_WINDOW_MS = 5000; // 5 seconds window for deduplication
 
 const DEFAULT_ACCOUNT_ID = 'default';
 
+// Longer replies are split into several messages of at most this many characters
+const TEXT_CHUNK_LIMIT = 2000;
+
+// Bot user of each account, known once the gateway is ready
+const botUsers: Map<string, { id: string; username: string }> = new Map();
+
+// Forum thread titles seen in events, used to title answers to those threads
+const threadTitles: Map<string, string> = new Map();
+const MAX_THREAD_TITLES = 1000;
+
+// Active message usage per account
+const activeQuotas: Map<string, ActiveQuotaTracker> = new Map();
+
+// Passive reply budgets per account and inbound message, shared by agent replies and outbound sends
+const replyBudgets: Map<string, ReplyBudgetRegistry> = new Map();
+
+// Replies dropped instead of sent, e.g. because the active message quota was exhausted, per account
+const droppedReplies: Map<string, { count: number; lastDroppedAt: Date; lastReason: string }> = new Map();
+
+// Outbound messages held for review, per account
+const auditTrackers: Map<string, MessageAuditTracker> = new Map();
+
+// Messages sent by each account, so they can be recalled by id
+const sentMessages: Map<string, SentMessageLog> = new Map();
+
+// Guild and channel names per account
+const directories: Map<string, GuildDirectory> = new Map();
+
+// DMS sessions per account and user, persisted across restarts
+const dmSessions = new DmSessionStore();
+
+// QQ's "dms session not found" code, returned for a DMS session that expired or was closed
+const DMS_SESSION_NOT_FOUND = 304050;
+
+// Last QQ API error per account, with the trace id QQ support asks for
+const lastApiErrors: Map<string, {
+  category: QQApiErrorCategory;
+  status: number;
+  code?: number;
+  route: string;
+  traceId?: string;
+  at: Date;
+}> = new Map();
+
+// What to fix for errors caused by the bot's configuration
+const CONFIGURATION_HINTS: Partial<Record<QQApiErrorCategory, string>> = {
+  auth: 'check appId and appSecret',
+  'ip-whitelist': "add this server's public IP to the bot's IP whitelist on the QQ open platform",
+  permission: 'the bot lacks permission for this API, channel or guild',
+};
+
+// Allow and deny lists of ids
+const ID_FILTER_SCHEMA = {
+  type: 'object',
+  properties: {
+    allow: { type: 'array', items: { type: 'string' } },
+    deny: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// Access policy, shared by the top-level config and each account
+const ACCESS_SCHEMA = {
+  type: 'object',
+  description: 'Who may talk to the bot and who may run control commands',
+  properties: {
+    guilds: { ...ID_FILTER_SCHEMA, description: 'Guild ids' },
+    channels: { ...ID_FILTER_SCHEMA, description: 'Channel ids' },
+    users: { ...ID_FILTER_SCHEMA, description: 'User ids or openids' },
+    roles: { ...ID_FILTER_SCHEMA, description: 'QQ role ids of the sender (member.roles), not checked for events without roles' },
+    dm: {
+      type: 'object',
+      description: 'Direct and C2C message policy',
+      properties: {
+        policy: { type: 'string', enum: ['open', 'allowlist', 'disabled'], default: 'open' },
+        allowFrom: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    admins: {
+      type: 'object',
+      description: 'Users and roles allowed to run control commands, defaults to roles 2 (admin) and 4 (owner)',
+      properties: {
+        users: { type: 'array', items: { type: 'string' } },
+        roles: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+};
+
 /**
  * Resolve QQ channel account configuration
  */
@@ -37,6 +159,15 @@ function resolveQQAccount(cfg: any, accountId: string): QQChannelAccount | null
       appSecret: String(qqConfig.appSecret),
       botToken: String(qqConfig.botToken),
       sandbox: Boolean(qqConfig.sandbox),
+      messageMode: qqConfig.messageMode,
+      intents: qqConfig.intents,
+      groupAndC2C: qqConfig.groupAndC2C,
+      messageFormat: qqConfig.messageFormat,
+      markdownTemplate: qqConfig.markdownTemplate,
+      mediaMaxMb: qqConfig.mediaMaxMb,
+      access: qqConfig.access,
+      apiBase: qqConfig.apiBase,
+      tokenEndpoint: qqConfig.tokenEndpoint,
     };
   }
 
@@ -71,12 +202,508 @@ function getOrCreateApiClient(accountId: string, config: QQChannelAccount): QQAp
       appId: config.appId,
       appSecret: config.appSecret,
       sandbox: config.sandbox,
+      apiBase: config.apiBase,
+      tokenEndpoint: config.tokenEndpoint,
     });
     apiClients.set(accountId, client);
   }
   return client;
 }
 
+/**
+ * Conversation details derived from an inbound message
+ */
+interface InboundConversation {
+  chatType: 'direct' | 'channel' | 'group';
+  peer: { kind: 'dm' | 'group' | 'channel'; id: string };
+  from: string;
+  to: string;
+  senderId: string;
+  senderName: string;
+  senderUsername?: string;
+  fromLabel: string;
+  groupSubject?: string;
+  groupChannel?: string;
+}
+
+/**
+ * Describe the conversation an inbound message belongs to
+ * Guild and channel names come from the directory, group and C2C messages only expose openids
+ */
+function describeInbound(inbound: QQInboundMessage, directory: GuildDirectory): InboundConversation {
+  switch (inbound.scene) {
+    case 'channel': {
+      const { message } = inbound;
+      const senderName = message.author.username || message.author.id;
+      const channelName = directory.channelName(message.channel_id);
+      const guildName = message.guild_id ? directory.guildName(message.guild_id) : undefined;
+      return {
+        chatType: 'channel',
+        peer: { kind: 'channel', id: message.channel_id },
+        from: formatAddress({ kind: 'channel', channelId: message.channel_id }),
+        to: formatAddress({ kind: 'channel', channelId: message.channel_id }),
+        senderId: message.author.id,
+        senderName,
+        senderUsername: message.author.username,
+        fromLabel: guildName ? `${senderName} in ${guildName} ${channelName}` : `${senderName} in ${channelName}`,
+        groupSubject: guildName || channelName,
+        groupChannel: channelName,
+      };
+    }
+
+    case 'direct': {
+      const { message } = inbound;
+      const senderName = message.author.username || message.author.id;
+      return {
+        chatType: 'direct',
+        peer: { kind: 'dm', id: message.author.id },
+        from: formatAddress({ kind: 'dm', userId: message.author.id }),
+        to: formatAddress({ kind: 'dm', userId: message.author.id }),
+        senderId: message.author.id,
+        senderName,
+        senderUsername: message.author.username,
+        fromLabel: senderName,
+      };
+    }
+
+    case 'group': {
+      const { message } = inbound;
+      const senderId = message.author.member_openid;
+      return {
+        chatType: 'group',
+        peer: { kind: 'group', id: message.group_openid },
+        from: formatAddress({ kind: 'group', groupOpenid: message.group_openid }),
+        to: formatAddress({ kind: 'group', groupOpenid: message.group_openid }),
+        senderId,
+        senderName: senderId,
+        fromLabel: `${senderId} in ${message.group_openid}`,
+        groupSubject: message.group_openid,
+      };
+    }
+
+    case 'c2c': {
+      const { message } = inbound;
+      const senderId = message.author.user_openid;
+      return {
+        chatType: 'direct',
+        peer: { kind: 'dm', id: senderId },
+        from: formatAddress({ kind: 'c2c', openid: senderId }),
+        to: formatAddress({ kind: 'c2c', openid: senderId }),
+        senderId,
+        senderName: senderId,
+        fromLabel: senderId,
+      };
+    }
+  }
+}
+
+/**
+ * Resolve the API scene and target id a reply to an inbound message is sent to
+ */
+function resolveReplyTarget(inbound: QQInboundMessage): { scene: MessageScene; targetId: string } {
+  switch (inbound.scene) {
+    case 'direct':
+      // For DMs, use /dms/{guild_id}/messages
+      if (inbound.message.guild_id) {
+        return { scene: 'direct', targetId: inbound.message.guild_id };
+      }
+      return { scene: 'channel', targetId: inbound.message.channel_id };
+
+    case 'channel':
+      // For channel messages, use /channels/{channel_id}/messages
+      return { scene: 'channel', targetId: inbound.message.channel_id };
+
+    case 'group':
+      return { scene: 'group', targetId: inbound.message.group_openid };
+
+    case 'c2c':
+      return { scene: 'c2c', targetId: inbound.message.author.user_openid };
+  }
+}
+
+/**
+ * Resolve which active message quota a reply to an inbound message counts against
+ */
+function resolveQuotaKey(inbound: QQInboundMessage): QuotaKey {
+  switch (inbound.scene) {
+    case 'channel':
+      return { scope: 'guild', id: inbound.message.guild_id || inbound.message.channel_id };
+    case 'direct':
+      return { scope: 'direct', id: inbound.message.author.id };
+    case 'group':
+      return { scope: 'group', id: inbound.message.group_openid };
+    case 'c2c':
+      return { scope: 'c2c', id: inbound.message.author.user_openid };
+  }
+}
+
+/**
+ * Send a reply to the conversation an inbound message came from
+ */
+async function sendReply(
+  client: QQApiClient,
+  inbound: QQInboundMessage,
+  message: SendMessageRequest,
+  mode: ReplyMode
+): Promise<SendMessageResponse | SendV2MessageResponse> {
+  const { scene, targetId } = resolveReplyTarget(inbound);
+  return client.sendMessage(scene, targetId, { ...message, ...replyFieldsOf(scene, mode) });
+}
+
+/**
+ * Fields that send a message in the given reply mode
+ * Passive replies carry msg_id or event_id, msg_seq numbers them since group and C2C reject a repeated msg_seq
+ */
+function replyFieldsOf(scene: MessageScene, mode: ReplyMode): Pick<SendMessageRequest, 'msg_id' | 'event_id' | 'msg_seq'> {
+  const sequenced = scene === 'group' || scene === 'c2c';
+
+  switch (mode.kind) {
+    case 'passive':
+      return { msg_id: mode.msgId, msg_seq: sequenced ? mode.msgSeq : undefined };
+    case 'event':
+      return { event_id: mode.eventId, msg_seq: sequenced ? mode.msgSeq : undefined };
+    case 'active':
+      return {};
+  }
+}
+
+/**
+ * Reply fields of an outbound send to msgId, numbered by the same budget as the agent's replies to that message
+ */
+function outboundReplyFields(
+  accountId: string,
+  scene: MessageScene,
+  msgId: string | undefined
+): Pick<SendMessageRequest, 'msg_id' | 'event_id' | 'msg_seq'> {
+  if (!msgId) return {};
+  return replyFieldsOf(scene, getReplyBudgets(accountId).getOrCreate(scene, msgId).next());
+}
+
+/**
+ * Get the passive reply budgets of an account
+ */
+function getReplyBudgets(accountId: string): ReplyBudgetRegistry {
+  let registry = replyBudgets.get(accountId);
+  if (!registry) {
+    registry = new ReplyBudgetRegistry();
+    replyBudgets.set(accountId, registry);
+  }
+  return registry;
+}
+
+/**
+ * Get the audit tracker of an account
+ */
+function getAuditTracker(accountId: string): MessageAuditTracker {
+  let tracker = auditTrackers.get(accountId);
+  if (!tracker) {
+    tracker = new MessageAuditTracker();
+    auditTrackers.set(accountId, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Get the sent message log of an account
+ */
+function getSentMessages(accountId: string): SentMessageLog {
+  let log = sentMessages.get(accountId);
+  if (!log) {
+    log = new SentMessageLog();
+    sentMessages.set(accountId, log);
+  }
+  return log;
+}
+
+/**
+ * Get the guild directory of an account
+ */
+function getDirectory(accountId: string): GuildDirectory {
+  let directory = directories.get(accountId);
+  if (!directory) {
+    directory = new GuildDirectory();
+    directories.set(accountId, directory);
+  }
+  return directory;
+}
+
+/**
+ * Resolve an outbound channel target, "#channel-name" is looked up in the directory
+ */
+async function resolveChannelTarget(accountId: string, client: QQApiClient, to: string): Promise<string> {
+  if (!to.startsWith('#')) return to;
+
+  const directory = getDirectory(accountId);
+  await directory.ensureLoaded(client);
+  return directory.resolveChannel(to);
+}
+
+/**
+ * Get the DMS guild id for a user, creating the session if none is cached or renew is set
+ */
+async function openDirectSession(
+  accountId: string,
+  client: QQApiClient,
+  target: Extract<QQAddress, { kind: 'dm' }>,
+  renew: boolean
+): Promise<string> {
+  const cached = await dmSessions.get(accountId, target.userId);
+  if (cached && !renew) return cached.guildId;
+
+  const sourceGuildId = target.sourceGuildId ?? cached?.sourceGuildId;
+  if (!sourceGuildId) {
+    const address = formatAddress({ kind: 'dm', userId: target.userId, sourceGuildId: '<guildId>' });
+    throw new Error(`No DM session with user ${target.userId}, address them as ${address} to open one`);
+  }
+
+  const session = await client.createDMS(target.userId, sourceGuildId);
+  await dmSessions.set(accountId, target.userId, {
+    guildId: session.guild_id,
+    channelId: session.channel_id,
+    sourceGuildId,
+    createdAt: new Date().toISOString(),
+  });
+  console.log(`[QQ-Channel] Opened DM session ${session.guild_id} with user ${target.userId}`);
+  return session.guild_id;
+}
+
+/**
+ * Whether QQ rejected a DM because the DMS session no longer exists
+ */
+function isDmSessionGone(error: unknown): boolean {
+  return isQQApiError(error) && (error.code === DMS_SESSION_NOT_FOUND || (error.code === undefined && error.status === 404));
+}
+
+/**
+ * Send to a user's DMS session, recreating the session once if QQ says the cached one is gone
+ */
+async function sendToDirectSession<T>(
+  accountId: string,
+  client: QQApiClient,
+  target: Extract<QQAddress, { kind: 'dm' }>,
+  send: (guildId: string) => Promise<T>
+): Promise<{ response: T; guildId: string }> {
+  const guildId = await openDirectSession(accountId, client, target, false);
+  try {
+    return { response: await send(guildId), guildId };
+  } catch (error) {
+    // Only a gone session is renewed, other failures (5xx included) may have delivered the message
+    if (!isDmSessionGone(error)) throw error;
+
+    // The renewal replaces the cached session and needs its source guild, so the entry is kept until then
+    const renewed = await openDirectSession(accountId, client, target, true);
+    if (renewed === guildId) throw error;
+
+    console.log(`[QQ-Channel] DM session ${guildId} with user ${target.userId} expired, using ${renewed}`);
+    return { response: await send(renewed), guildId: renewed };
+  }
+}
+
+/**
+ * Resolve the API scene and target id of an address, DM addresses open a DMS session if none is cached
+ */
+async function resolveAddressTarget(
+  accountId: string,
+  client: QQApiClient,
+  address: QQAddress
+): Promise<{ scene: MessageScene; targetId: string }> {
+  switch (address.kind) {
+    case 'channel':
+      return { scene: 'channel', targetId: await resolveChannelTarget(accountId, client, address.channelId) };
+    case 'dm':
+      return { scene: 'direct', targetId: await openDirectSession(accountId, client, address, false) };
+    case 'group':
+      return { scene: 'group', targetId: address.groupOpenid };
+    case 'c2c':
+      return { scene: 'c2c', targetId: address.openid };
+    case 'thread':
+      throw new Error(`Cannot send messages into forum thread ${formatAddress(address)}, QQ bots can only publish threads`);
+  }
+}
+
+/**
+ * Send to an address, as a reply to replyToId when given
+ * DMs go through the user's DMS session, which is recreated once if QQ rejects the cached one
+ */
+async function sendToAddress<T>(
+  accountId: string,
+  client: QQApiClient,
+  address: QQAddress,
+  replyToId: string | undefined,
+  send: (scene: MessageScene, targetId: string, msgId: string | undefined) => Promise<T>
+): Promise<{ response: T; scene: MessageScene; targetId: string }> {
+  const reply = (scene: MessageScene, targetId: string) =>
+    sendWithReplyFallback(accountId, replyToId, (msgId) => send(scene, targetId, msgId));
+
+  if (address.kind === 'dm') {
+    const { response, guildId } = await sendToDirectSession(accountId, client, address, (guildId) => reply('direct', guildId));
+    return { response, scene: 'direct', targetId: guildId };
+  }
+
+  const { scene, targetId } = await resolveAddressTarget(accountId, client, address);
+  return { response: await reply(scene, targetId), scene, targetId };
+}
+
+/**
+ * Log a sent message and track it if QQ held it for review, returns the message id or the audit id while held
+ */
+function trackSentMessage(
+  accountId: string,
+  response: SendMessageResponse | SendV2MessageResponse,
+  scene: MessageScene,
+  targetId: string,
+  text: string
+): string {
+  let messageId = response.id;
+  if ('audit_id' in response && response.audit_id) {
+    console.log(`[QQ-Channel] Message to ${targetId} held for review (audit ${response.audit_id})`);
+    getAuditTracker(accountId).hold(response.audit_id, targetId, text);
+    messageId = response.audit_id;
+  }
+
+  getSentMessages(accountId).record(messageId, scene, targetId);
+  return messageId;
+}
+
+/**
+ * Record a reply that was dropped instead of sent
+ */
+function recordDroppedReply(accountId: string, reason: string): void {
+  const previous = droppedReplies.get(accountId);
+  droppedReplies.set(accountId, {
+    count: (previous?.count ?? 0) + 1,
+    lastDroppedAt: new Date(),
+    lastReason: reason,
+  });
+}
+
+/**
+ * Record and log a QQ API error, configuration errors get a hint on how to fix them
+ */
+function recordApiError(accountId: string, error: QQApiError): void {
+  lastApiErrors.set(accountId, {
+    category: error.category,
+    status: error.status,
+    code: error.code,
+    route: `${error.method} ${error.route}`,
+    traceId: error.traceId,
+    at: new Date(),
+  });
+
+  const hint = CONFIGURATION_HINTS[error.category];
+  if (hint) {
+    console.error(`[QQ-Channel] Account ${accountId}: ${error.message}, ${hint}`);
+  }
+}
+
+/**
+ * Send a reply to a message, as an active message if QQ says the passive reply window has expired
+ */
+async function sendWithReplyFallback<T>(
+  accountId: string,
+  replyToId: string | undefined,
+  send: (msgId: string | undefined) => Promise<T>
+): Promise<T> {
+  try {
+    return await send(replyToId);
+  } catch (error) {
+    if (isQQApiError(error)) {
+      recordApiError(accountId, error);
+      if (replyToId && error.category === 'reply-window-expired') {
+        console.log(`[QQ-Channel] Passive reply window for message ${replyToId} expired, sending active message`);
+        return send(undefined);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Look up the sender's roles when a role filter applies but the event does not carry them
+ * A failed lookup leaves the roles unknown, which the role filter denies
+ */
+async function withMemberRoles(
+  client: QQApiClient,
+  policy: AccessPolicyConfig | undefined,
+  subject: AccessSubject
+): Promise<AccessSubject> {
+  if (!needsMemberRoles(policy, subject)) return subject;
+
+  try {
+    const member = await client.getGuildMember(subject.guildId!, subject.userId);
+    return { ...subject, roles: member.roles ?? [] };
+  } catch (error) {
+    console.warn(`[QQ-Channel] Failed to look up roles of user ${subject.userId} in guild ${subject.guildId}:`, error);
+    return subject;
+  }
+}
+
+/**
+ * Resolve the message an inbound message quotes
+ * Guild channel quotes are fetched for their text, group and C2C events carry it inline;
+ * the quoted id is kept even when the text cannot be read
+ */
+async function resolveQuote(
+  client: QQApiClient,
+  inbound: QQInboundMessage,
+  botUserId: string | undefined
+): Promise<{ id: string; body?: string; sender?: string } | null> {
+  const quotedId = inbound.message.message_reference?.message_id;
+  if (!quotedId) return null;
+
+  switch (inbound.scene) {
+    case 'channel':
+      return (await fetchQuotedMessage(client, inbound.message.channel_id, quotedId, botUserId)) ?? { id: quotedId };
+    case 'direct':
+      return { id: quotedId };
+    case 'group':
+    case 'c2c':
+      return { id: quotedId, body: inbound.message.msg_elements?.[0]?.content?.trim() || undefined };
+  }
+}
+
+/**
+ * Fetch a quoted channel message, returns null if it cannot be read
+ */
+async function fetchQuotedMessage(
+  client: QQApiClient,
+  channelId: string,
+  messageId: string,
+  botUserId: string | undefined
+): Promise<{ id: string; body: string; sender: string } | null> {
+  try {
+    const quoted = await client.getChannelMessage(channelId, messageId);
+    return {
+      id: quoted.id,
+      body: parseMentions(quoted.content || '', quoted.mentions, botUserId).text,
+      sender: quoted.author.username || quoted.author.id,
+    };
+  } catch (error) {
+    console.warn(`[QQ-Channel] Failed to fetch quoted message ${messageId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build a visual quote of the message being replied to
+ */
+function quoteReference(replyToId: string | undefined): SendMessageRequest['message_reference'] {
+  return replyToId ? { message_id: replyToId, ignore_get_message_error: true } : undefined;
+}
+
+/**
+ * Remember a forum thread's title, dropping the oldest once the cache is full
+ */
+function rememberThreadTitle(threadId: string, title: string): void {
+  threadTitles.delete(threadId);
+  threadTitles.set(threadId, title);
+
+  if (threadTitles.size > MAX_THREAD_TITLES) {
+    const oldest = threadTitles.keys().next().value;
+    if (oldest !== undefined) threadTitles.delete(oldest);
+  }
+}
+
 /**
  * The QQ Channel plugin implementation
  */
@@ -90,9 +717,9 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
   },
 
   capabilities: {
-    chatTypes: ['channel', 'direct'],
-    reactions: false,
-    threads: false,
+    chatTypes: ['channel', 'direct', 'group'],
+    reactions: true,
+    threads: true,
     media: true,
     nativeCommands: true,  // Enable slash commands support
     blockStreaming: false,
@@ -122,6 +749,54 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
         description: 'Use sandbox/test environment',
         default: false,
       },
+      messageMode: {
+        type: 'string',
+        enum: ['public', 'private'],
+        description: 'public: only messages that @ the bot; private: all guild messages (private-domain bots)',
+        default: 'public',
+      },
+      intents: {
+        type: 'array',
+        items: { type: 'string', enum: INTENT_NAMES },
+        description: 'Explicit gateway intents, overrides the intents derived from messageMode',
+      },
+      groupAndC2C: {
+        type: 'boolean',
+        description: 'Receive QQ group and C2C messages (GROUP_AND_C2C_EVENT), requires the group permission',
+        default: false,
+      },
+      messageFormat: {
+        type: 'string',
+        enum: ['text', 'markdown', 'template'],
+        description: 'Reply format: plain text, native markdown or a registered markdown template',
+        default: 'text',
+      },
+      mediaMaxMb: {
+        type: 'number',
+        description: 'Maximum size of inbound attachments to download, in MB',
+        default: DEFAULT_MEDIA_MAX_MB,
+      },
+      markdownTemplate: {
+        type: 'object',
+        description: 'Markdown template used when messageFormat is "template"',
+        properties: {
+          id: { type: 'string', description: 'Template id registered on the QQ open platform' },
+          params: {
+            type: 'object',
+            description: 'Template key -> value pattern, may reference {text}, {title} and {body}',
+            additionalProperties: { type: 'string' },
+          },
+        },
+      },
+      access: ACCESS_SCHEMA,
+      apiBase: {
+        type: 'string',
+        description: 'Override the QQ API base URL, e.g. to point at a local simulator',
+      },
+      tokenEndpoint: {
+        type: 'string',
+        description: 'Override the access token endpoint, e.g. to point at a local simulator',
+      },
       accounts: {
         type: 'object',
         additionalProperties: {
@@ -131,6 +806,21 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
             appSecret: { type: 'string' },
             botToken: { type: 'string' },
             sandbox: { type: 'boolean', default: false },
+            messageMode: { type: 'string', enum: ['public', 'private'], default: 'public' },
+            intents: { type: 'array', items: { type: 'string', enum: INTENT_NAMES } },
+            groupAndC2C: { type: 'boolean', default: false },
+            messageFormat: { type: 'string', enum: ['text', 'markdown', 'template'], default: 'text' },
+            mediaMaxMb: { type: 'number', default: DEFAULT_MEDIA_MAX_MB },
+            markdownTemplate: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                params: { type: 'object', additionalProperties: { type: 'string' } },
+              },
+            },
+            access: ACCESS_SCHEMA,
+            apiBase: { type: 'string' },
+            tokenEndpoint: { type: 'string' },
           },
         },
       },
@@ -151,15 +841,16 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
       fields: {
         appId: account.appId,
         sandbox: account.sandbox ? 'Yes' : 'No',
+        messageMode: resolveMessageMode(account),
       },
     }),
   },
 
   outbound: {
     deliveryMode: 'direct',
-    textChunkLimit: 4000,
+    textChunkLimit: TEXT_CHUNK_LIMIT,
 
-    sendText: async ({ to, text, accountId, replyToId }) => {
+    sendText: async ({ to, text, accountId, replyToId, threadId }) => {
       const runtime = getQQRuntime();
       const cfg = runtime.config.loadConfig();
       const account = resolveQQAccount(cfg, accountId);
@@ -169,14 +860,39 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
       }
 
       const client = getOrCreateApiClient(accountId, account);
+      const address = parseAddress(to);
+
+      // Answers to a forum thread are published as a thread in the same forum channel
+      const thread = address.kind === 'thread'
+        ? address
+        : threadId && address.kind === 'channel'
+          ? { channelId: await resolveChannelTarget(accountId, client, address.channelId), threadId }
+          : null;
+      if (thread) {
+        const created = await client.createThread(
+          thread.channelId,
+          buildThreadReply(threadTitles.get(thread.threadId), thread.threadId, toQQMarkdown(text))
+        );
+        return {
+          messageId: created.task_id,
+          timestamp: new Date(),
+        };
+      }
 
-      const response = await client.sendChannelMessage(to, {
-        content: text,
-        msg_id: replyToId,
-      });
+      // Plain text, native markdown or markdown template depending on messageFormat, like agent replies
+      const message = formatReplyMessage(account, text);
+
+      // msg_id makes it a passive reply, message_reference shows the quote in guild channels
+      const { response, scene, targetId } = await sendToAddress(accountId, client, address, replyToId, (scene, targetId, msgId) =>
+        client.sendMessage(scene, targetId, {
+          ...message,
+          ...outboundReplyFields(accountId, scene, msgId),
+          message_reference: scene === 'channel' ? quoteReference(replyToId) : undefined,
+        })
+      );
 
       return {
-        messageId: response.id,
+        messageId: trackSentMessage(accountId, response, scene, targetId, text),
         timestamp: new Date(response.timestamp),
       };
     },
@@ -192,17 +908,82 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
 
       const client = getOrCreateApiClient(accountId, account);
 
-      const response = await client.sendChannelMessage(to, {
-        content: text,
-        image: mediaUrl,
-        msg_id: replyToId,
-      });
+      // Remote URLs are passed through, local files and data URLs are uploaded
+      // Media messages cannot carry markdown, captions follow the plain text rules
+      const { response, scene, targetId } = await sendToAddress(accountId, client, parseAddress(to), replyToId, (scene, targetId, msgId) =>
+        sendMediaMessage(client, scene, targetId, mediaUrl, {
+          content: text && toPlainText(text),
+          ...outboundReplyFields(accountId, scene, msgId),
+          message_reference: scene === 'channel' ? quoteReference(replyToId) : undefined,
+        })
+      );
 
       return {
-        messageId: response.id,
+        messageId: trackSentMessage(accountId, response, scene, targetId, text || mediaUrl),
         timestamp: new Date(response.timestamp),
       };
     },
+
+    react: async ({ to, messageId, emoji, accountId, remove }) => {
+      const runtime = getQQRuntime();
+      const cfg = runtime.config.loadConfig();
+      const account = resolveQQAccount(cfg, accountId);
+
+      if (!account) {
+        throw new Error(`Account ${accountId} not configured`);
+      }
+
+      // Reactions only exist on guild channel messages
+      const address = parseAddress(to);
+      if (address.kind !== 'channel') {
+        throw new Error(`Reactions are only supported on guild channel messages, got ${formatAddress(address)}`);
+      }
+
+      const client = getOrCreateApiClient(accountId, account);
+      const channelId = await resolveChannelTarget(accountId, client, address.channelId);
+
+      if (remove) {
+        await client.removeReaction(channelId, messageId, parseEmoji(emoji));
+      } else {
+        await client.addReaction(channelId, messageId, parseEmoji(emoji));
+      }
+    },
+
+    recall: async ({ to, messageId, accountId, hideTip }) => {
+      const runtime = getQQRuntime();
+      const cfg = runtime.config.loadConfig();
+      const account = resolveQQAccount(cfg, accountId);
+
+      if (!account) {
+        throw new Error(`Account ${accountId} not configured`);
+      }
+
+      const client = getOrCreateApiClient(accountId, account);
+
+      // Messages held for review are recalled by the id they got once the audit passed
+      const tracker = auditTrackers.get(accountId);
+      const resolvedId = tracker ? tracker.resolveMessageId(messageId) : messageId;
+      if (!resolvedId) {
+        throw new Error(`Message ${messageId} is held for review or was rejected, it cannot be recalled`);
+      }
+
+      // Messages sent before a restart are not logged, they can only be recalled at a known address
+      const sent = getSentMessages(accountId).get(messageId);
+      const target = sent ?? (to ? await resolveAddressTarget(accountId, client, parseAddress(to)) : null);
+      if (!target) {
+        throw new Error(`Message ${messageId} was not sent by account ${accountId}, pass the address it was sent to`);
+      }
+
+      try {
+        await client.recallMessage(target.scene, target.targetId, resolvedId, hideTip);
+      } catch (error) {
+        if (isQQApiError(error)) recordApiError(accountId, error);
+        throw error;
+      }
+
+      getSentMessages(accountId).forget(messageId);
+      console.log(`[QQ-Channel] Recalled message ${messageId} in ${target.targetId}`);
+    },
   },
 
   status: {
@@ -218,20 +999,29 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
       health: 'ok',
     }),
 
-    buildAccountSnapshot: ({ account, runtime }) => ({
-      account: {
-        id: runtime?.accountId || DEFAULT_ACCOUNT_ID,
-        name: `QQ Bot ${account.appId}`,
-        configured: !!(account.appId && account.appSecret && account.botToken),
-      },
-      runtime: runtime || {
-        accountId: DEFAULT_ACCOUNT_ID,
-        running: false,
-        lastStartAt: null,
-        lastStopAt: null,
-        lastError: null,
-      },
-    }),
+    buildAccountSnapshot: ({ account, runtime }) => {
+      const accountId = runtime?.accountId || DEFAULT_ACCOUNT_ID;
+      const active = activeRuntimes.get(accountId);
+
+      return {
+        account: {
+          id: accountId,
+          name: `QQ Bot ${account.appId}`,
+          configured: !!(account.appId && account.appSecret && account.botToken),
+        },
+        runtime: runtime || {
+          accountId: DEFAULT_ACCOUNT_ID,
+          running: false,
+          lastStartAt: null,
+          lastStopAt: null,
+          lastError: null,
+        },
+        heartbeatLatencyMs: active?.getHeartbeatLatency() ?? null,
+        droppedReplies: droppedReplies.get(accountId) ?? null,
+        lastApiError: lastApiErrors.get(accountId) ?? null,
+        messageAudits: auditTrackers.get(accountId)?.getStats() ?? null,
+      };
+    },
   },
 
   gateway: {
@@ -259,168 +1049,491 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
 
       const client = getOrCreateApiClient(accountId, account);
 
-      const runtime = new QQChannelRuntime({
+      // Names for envelopes and labels, messages arriving before the load completes show ids
+      const directory = getDirectory(accountId);
+      directory.ensureLoaded(client).catch((error) => {
+        console.warn(`[QQ-Channel] Failed to load guild directory for account ${accountId}:`, error);
+      });
+
+      // Route an inbound message to the agent and deliver its replies
+      const handleInbound = async (inbound: QQInboundMessage): Promise<void> => {
+        const core = getQQRuntime();
+        const cfg = core.config.loadConfig();
+        const { message } = inbound;
+        const conversation = describeInbound(inbound, directory);
+
+        // Log message for debugging
+        console.log('[QQ-Channel] Received message:', {
+          id: message.id,
+          content: message.content,
+          scene: inbound.scene,
+          sender: conversation.senderName,
+          peer: conversation.peer.id,
+        });
+
+        const accessSubject = await withMemberRoles(client, account.access, accessSubjectOf(inbound));
+        const access = checkAccess(account.access, accessSubject);
+        if (!access.allowed) {
+          console.log(`[QQ-Channel] Ignoring message ${message.id} from ${conversation.senderId}: ${access.reason}`);
+          return;
+        }
+
+        // Users who DM the bot can be messaged back later without opening a new session
+        if (inbound.scene === 'direct' && inbound.message.guild_id) {
+          const cached = await dmSessions.get(accountId, inbound.message.author.id);
+          await dmSessions.set(accountId, inbound.message.author.id, {
+            guildId: inbound.message.guild_id,
+            channelId: inbound.message.channel_id,
+            sourceGuildId: inbound.message.src_guild_id ?? cached?.sourceGuildId,
+            createdAt: cached?.guildId === inbound.message.guild_id ? cached.createdAt : new Date().toISOString(),
+          });
+        }
+
+        // Strip the bot's own mention, guild mentions of other users become @nick
+        // Group messages arrive with the bot mention already removed by QQ
+        const mentions = inbound.scene === 'channel' || inbound.scene === 'direct'
+          ? parseMentions(message.content || '', inbound.message.mentions, botUsers.get(accountId)?.id)
+          : { text: message.content?.trim() || '', wasMentioned: inbound.scene === 'group', mentionedUsers: [] };
+        // Public bots only receive messages that @ the bot
+        const wasMentioned = inbound.scene === 'channel'
+          ? mentions.wasMentioned || resolveMessageMode(account) === 'public'
+          : mentions.wasMentioned;
+
+        const messageText = mentions.text;
+        const attachments = message.attachments ?? [];
+        if (!messageText && attachments.length === 0) {
+          console.log('[QQ-Channel] Empty message, skipping');
+          return;
+        }
+
+        // Download attachments into the local media cache so the agent can read them
+        const maxBytes = (account.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+        const media = attachments.length > 0 ? await downloadAttachments(attachments, maxBytes) : [];
+
+        // The first attachment is passed as the context's media, attachment-only messages show its placeholder.
+        // Further attachments are listed in the body with their cached path so the agent knows about them
+        const bodyText = [
+          messageText || attachmentPlaceholder(media[0]?.contentType ?? attachments[0]?.content_type),
+          ...attachments.slice(1).map((attachment, index) => attachmentLine(attachment, media[index + 1])),
+        ].join('\n');
+
+        // The quoted message and, when it can be read, its text are given to the agent as reply context
+        const quote = await resolveQuote(client, inbound, botUsers.get(accountId)?.id);
+
+        // Resolve agent route
+        const route = core.channel.routing.resolveAgentRoute({
+          cfg,
+          channel: 'qq-channel',
+          accountId,
+          peer: conversation.peer,
+        });
+
+        const fromLabel = conversation.fromLabel;
+        const timestamp = message.timestamp ? new Date(message.timestamp).getTime() : Date.now();
+
+        // Check if this is a control command, only admins may run them
+        const isCommand = core.channel.text.hasControlCommand(messageText, cfg);
+        const commandAuthorized = isCommand && isCommandAuthorized(account.access, accessSubject);
+        if (isCommand && !commandAuthorized) {
+          console.log(`[QQ-Channel] Control command from ${conversation.senderId} not authorized: sender is not an admin user or role`);
+        }
+
+        // Format the message body
+        const body = core.channel.reply.formatAgentEnvelope({
+          channel: 'QQ Channel',
+          from: fromLabel,
+          timestamp,
+          body: bodyText,
+        });
+
+        // Create inbound context
+        const ctxPayload = core.channel.reply.finalizeInboundContext({
+          Body: body,
+          RawBody: bodyText,
+          CommandBody: bodyText,
+          From: conversation.from,
+          To: conversation.to,
+          SessionKey: route.sessionKey,
+          AccountId: route.accountId,
+          ChatType: conversation.chatType,
+          ConversationLabel: fromLabel,
+          SenderName: conversation.senderName,
+          SenderId: conversation.senderId,
+          SenderUsername: conversation.senderUsername,
+          GroupSubject: conversation.groupSubject,
+          GroupChannel: conversation.groupChannel,
+          Provider: 'qq-channel',
+          Surface: 'qq-channel',
+          WasMentioned: inbound.scene === 'channel' || inbound.scene === 'group' ? wasMentioned : undefined,
+          MessageSid: message.id,
+          ReplyToId: quote?.id,
+          ReplyToBody: quote?.body,
+          ReplyToSender: quote?.sender,
+          MediaPath: media[0]?.path,
+          MediaType: media[0]?.contentType ?? attachments[0]?.content_type,
+          MediaUrl: media[0]?.url ?? (attachments[0] ? attachmentUrl(attachments[0]) : undefined),
+          CommandAuthorized: isCommand ? commandAuthorized : undefined,
+          OriginatingChannel: 'qq-channel',
+          OriginatingTo: conversation.to,
+        });
+
+        console.log('[QQ-Channel] Dispatching to AI with session:', route.sessionKey);
+
+        // Get response prefix and human delay config
+        const responsePrefix = core.channel.reply.resolveEffectiveMessagesConfig(cfg, route.agentId).responsePrefix;
+        const humanDelay = core.channel.reply.resolveHumanDelayConfig(cfg, route.agentId);
+
+        // Users the agent may @ in its reply: the sender and whoever the sender mentioned
+        const mentionableUsers = [
+          { id: conversation.senderId, name: conversation.senderName },
+          ...mentions.mentionedUsers.map((user) => ({ id: user.id, name: user.username })),
+        ];
+
+        // Passive replies left for this message, shared by every delivered block and outbound sends to it
+        // Button clicks have no user message to reply to, only the interaction's event_id
+        const replyBudget = inbound.interactionId
+          ? new PassiveReplyBudget(inbound.scene, undefined, inbound.eventId)
+          : getReplyBudgets(accountId).getOrCreate(inbound.scene, message.id, inbound.eventId);
+        const quotaKey = resolveQuotaKey(inbound);
+        let activeQuota = activeQuotas.get(accountId);
+        if (!activeQuota) {
+          activeQuota = new ActiveQuotaTracker();
+          activeQuotas.set(accountId, activeQuota);
+        }
+
+        // Dispatch to AI and deliver reply
+        try {
+          await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+            ctx: ctxPayload,
+            cfg,
+            dispatcherOptions: {
+              responsePrefix,
+              humanDelay,
+              deliver: async (payload) => {
+                if (!payload.text) return;
+
+                // Turn @nick of known users into QQ mention syntax
+                const replyTarget = resolveReplyTarget(inbound);
+                const replyText = applyOutboundMentions(payload.text, replyTarget.scene, mentionableUsers);
+
+                // Log the message size for debugging
+                console.log(`[QQ-Channel] Message size: ${replyText.length} chars, content preview: ${replyText.slice(0, 80).replace(/\n/g, ' ')}...`);
+
+                // Deduplication: Skip if we already sent the same reply to this message recently
+                const messageKey = `${conversation.peer.id}:${message.id}`;
+                const lastReply = recentReplies.get(messageKey);
+                const now = Date.now();
+
+                if (lastReply && lastReply.text === replyText && (now - lastReply.timestamp) < REPLY_DEDUP_WINDOW_MS) {
+                  console.log('[QQ-Channel] Skipping duplicate reply to message:', message.id);
+                  return;
+                }
+
+                // Once the passive replies are used up, further parts are sent as active messages
+                const allowance = replyBudget.remaining() + activeQuota.remaining(quotaKey);
+                const quotaReason = `active message quota for ${quotaKey.scope} ${quotaKey.id} exhausted`;
+                if (allowance <= 0) {
+                  console.warn(`[QQ-Channel] Reply to message ${message.id} dropped: ${quotaReason}`);
+                  recordDroppedReply(accountId, quotaReason);
+                  return;
+                }
+
+                // Split long replies on paragraph and code block boundaries
+                let chunks = core.channel.text.chunkMarkdownText(replyText, TEXT_CHUNK_LIMIT);
+
+                // Fold whatever cannot be sent into a note on the last part
+                if (chunks.length > allowance) {
+                  const omitted = chunks.length - allowance;
+                  const truncateMsg = `\n\n...(消息过长，剩余 ${omitted} 段已省略)`;
+                  chunks = chunks.slice(0, allowance);
+                  chunks[allowance - 1] = chunks[allowance - 1].slice(0, TEXT_CHUNK_LIMIT - truncateMsg.length) + truncateMsg;
+                  console.log(`[QQ-Channel] Reply needs ${allowance + omitted} parts, only ${allowance} can be sent`);
+                }
+
+                console.log('[QQ-Channel] Sending AI reply:', replyText.slice(0, 100) + (replyText.length > 100 ? '...' : ''));
+
+                // Buttons the agent attached are shown under the last part
+                const keyboardSpec = readKeyboardSpec(payload.channelData);
+
+                for (const [index, chunk] of chunks.entries()) {
+                  const mode = replyBudget.next();
+                  if (mode.kind === 'active') {
+                    if (!activeQuota.tryConsume(quotaKey)) {
+                      console.warn(`[QQ-Channel] Reply part to message ${message.id} dropped: ${quotaReason}`);
+                      recordDroppedReply(accountId, quotaReason);
+                      break;
+                    }
+                    console.log(`[QQ-Channel] Passive reply window for message ${message.id} closed, sending active message`);
+                  }
+
+                  // Plain text, native markdown or markdown template depending on messageFormat
+                  const reply = formatReplyMessage(account, chunk);
+                  const isLast = index === chunks.length - 1;
+                  const outgoing = keyboardSpec && isLast ? withKeyboard(reply, buildKeyboard(keyboardSpec)) : reply;
+
+                  try {
+                    const response = await sendReply(client, inbound, outgoing, mode);
+                    trackSentMessage(accountId, response, replyTarget.scene, replyTarget.targetId, chunk);
+                  } catch (error) {
+                    if (!isQQApiError(error)) throw error;
+                    recordApiError(accountId, error);
+
+                    // QQ closed the passive reply window before our clock did, send this part as an active message
+                    if (error.category === 'reply-window-expired' && mode.kind !== 'active') {
+                      replyBudget.expire();
+                      if (activeQuota.tryConsume(quotaKey)) {
+                        const response = await sendReply(client, inbound, outgoing, { kind: 'active' });
+                        trackSentMessage(accountId, response, replyTarget.scene, replyTarget.targetId, chunk);
+                        continue;
+                      }
+                      console.warn(`[QQ-Channel] Reply part to message ${message.id} dropped: ${quotaReason}`);
+                      recordDroppedReply(accountId, quotaReason);
+                      break;
+                    }
+
+                    // QQ counts active messages itself, trust it over our tracker
+                    if (error.category === 'quota') {
+                      activeQuota.exhaust(quotaKey);
+                      console.warn(`[QQ-Channel] Reply part to message ${message.id} dropped: ${error.message}`);
+                      recordDroppedReply(accountId, quotaReason);
+                      break;
+                    }
+
+                    // Only this part is rejected, the others may still pass review
+                    if (error.category === 'content-rejected') {
+                      console.warn(`[QQ-Channel] Reply part to message ${message.id} rejected: ${error.message}`);
+                      recordDroppedReply(accountId, `content rejected (trace_id ${error.traceId ?? 'unknown'})`);
+                      continue;
+                    }
+
+                    // Still rate limited after the client's retries, the rest would fail as well
+                    if (error.category === 'rate-limit') {
+                      console.warn(`[QQ-Channel] Reply to message ${message.id} dropped: ${error.message}`);
+                      recordDroppedReply(accountId, `rate limited (trace_id ${error.traceId ?? 'unknown'})`);
+                      break;
+                    }
+
+                    throw error;
+                  }
+                }
+
+                // Record this reply
+                recentReplies.set(messageKey, { text: replyText, timestamp: now });
+
+                // Cleanup old entries
+                for (const [key, value] of recentReplies.entries()) {
+                  if (now - value.timestamp > REPLY_DEDUP_WINDOW_MS) {
+                    recentReplies.delete(key);
+                  }
+                }
+
+                console.log('[QQ-Channel] AI reply sent successfully');
+              },
+              onError: (err, info) => {
+                console.error(`[QQ-Channel] ${info.kind} reply failed:`, err);
+              },
+            },
+          });
+        } catch (err) {
+          console.error('[QQ-Channel] Failed to dispatch reply:', err);
+        }
+      };
+
+      const runtime = new QQShardManager({
         appId: account.appId,
         botToken: account.botToken,
         apiClient: client,
+        intents: resolveIntents(account),
+        messageMode: resolveMessageMode(account),
 
-        onMessage: async (message: MessagePayload, isDirect: boolean) => {
-          const core = getQQRuntime();
-          const cfg = core.config.loadConfig();
+        onMessage: handleInbound,
 
-          // Log message for debugging
-          console.log('[QQ-Channel] Received message:', {
-            id: message.id,
-            content: message.content,
-            author: message.author.username,
-            channelId: message.channel_id,
-            guildId: message.guild_id,
-            isDirect,
-          });
+        onForumEvent: async (event: ForumEvent) => {
+          const forum = normalizeForumEvent(event);
+
+          // Ignore the bot's own threads
+          if (forum.authorId === botUsers.get(accountId)?.id) return;
+
+          const access = checkAccess(account.access, await withMemberRoles(client, account.access, {
+            scene: 'channel',
+            userId: forum.authorId,
+            guildId: forum.guildId,
+            channelId: forum.channelId,
+          }));
+          if (!access.allowed) {
+            console.log(`[QQ-Channel] Ignoring forum event ${forum.id} from ${forum.authorId}: ${access.reason}`);
+            return;
+          }
+
+          if (forum.title) {
+            rememberThreadTitle(forum.threadId, forum.title);
+          }
 
-          const messageText = message.content?.trim() || '';
-          if (!messageText) {
-            console.log('[QQ-Channel] Empty message, skipping');
+          const bodyText = forum.title ? `${forum.title}\n\n${forum.text}` : forum.text;
+          if (!bodyText.trim()) {
+            console.log('[QQ-Channel] Empty forum event, skipping');
             return;
           }
 
-          // Resolve agent route
+          const core = getQQRuntime();
+          const cfg = core.config.loadConfig();
           const route = core.channel.routing.resolveAgentRoute({
             cfg,
             channel: 'qq-channel',
             accountId,
-            peer: {
-              kind: isDirect ? 'dm' : 'channel',
-              id: isDirect ? message.author.id : message.channel_id,
-            },
+            peer: { kind: 'channel', id: forum.channelId },
           });
 
-          const senderName = message.author.username || message.author.id;
-          const fromLabel = isDirect ? senderName : `${senderName} in ${message.guild_id || message.channel_id}`;
-          const timestamp = message.timestamp ? new Date(message.timestamp).getTime() : Date.now();
+          // Each thread gets its own session
+          const sessionKey = `${route.sessionKey}:thread:${forum.threadId}`;
+          const threadAddress = formatAddress({ kind: 'thread', channelId: forum.channelId, threadId: forum.threadId });
+          const fromLabel = `${forum.authorId} in ${directory.guildName(forum.guildId)} ${directory.channelName(forum.channelId)}`;
+          const timestamp = forum.timestamp ? new Date(forum.timestamp).getTime() : Date.now();
 
-          // Check if this is a control command
-          const isCommand = core.channel.text.hasControlCommand(messageText, cfg);
-
-          // Format the message body
           const body = core.channel.reply.formatAgentEnvelope({
             channel: 'QQ Channel',
             from: fromLabel,
             timestamp,
-            body: messageText,
+            body: bodyText,
           });
 
-          // Create inbound context
           const ctxPayload = core.channel.reply.finalizeInboundContext({
             Body: body,
-            RawBody: messageText,
-            CommandBody: messageText,
-            From: isDirect ? `qq-channel:dm:${message.author.id}` : `qq-channel:channel:${message.channel_id}`,
-            To: `qq-channel:${message.channel_id}`,
-            SessionKey: route.sessionKey,
+            RawBody: bodyText,
+            CommandBody: bodyText,
+            From: threadAddress,
+            To: threadAddress,
+            SessionKey: sessionKey,
             AccountId: route.accountId,
-            ChatType: isDirect ? 'direct' : 'channel',
+            ChatType: 'channel',
             ConversationLabel: fromLabel,
-            SenderName: senderName,
-            SenderId: message.author.id,
-            SenderUsername: message.author.username,
-            GroupSubject: isDirect ? undefined : (message.guild_id || message.channel_id),
-            GroupChannel: isDirect ? undefined : message.channel_id,
+            SenderName: forum.authorId,
+            SenderId: forum.authorId,
+            GroupSubject: directory.guildName(forum.guildId),
+            GroupChannel: directory.channelName(forum.channelId),
             Provider: 'qq-channel',
             Surface: 'qq-channel',
-            MessageSid: message.id,
-            CommandAuthorized: isCommand ? true : undefined,  // Enable command execution
+            MessageSid: forum.id,
+            MessageThreadId: forum.threadId,
             OriginatingChannel: 'qq-channel',
-            OriginatingTo: `qq-channel:${message.channel_id}`,
+            OriginatingTo: threadAddress,
           });
 
-          console.log('[QQ-Channel] Dispatching to AI with session:', route.sessionKey);
-
-          // Get response prefix and human delay config
-          const responsePrefix = core.channel.reply.resolveEffectiveMessagesConfig(cfg, route.agentId).responsePrefix;
-          const humanDelay = core.channel.reply.resolveHumanDelayConfig(cfg, route.agentId);
+          console.log('[QQ-Channel] Dispatching forum event to AI with session:', sessionKey);
 
-          // Dispatch to AI and deliver reply
           try {
             await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
               ctx: ctxPayload,
               cfg,
               dispatcherOptions: {
-                responsePrefix,
-                humanDelay,
+                responsePrefix: core.channel.reply.resolveEffectiveMessagesConfig(cfg, route.agentId).responsePrefix,
+                humanDelay: core.channel.reply.resolveHumanDelayConfig(cfg, route.agentId),
                 deliver: async (payload) => {
-                  let replyText = payload.text;
-                  if (!replyText) return;
-
-                  // Filter sensitive URLs that QQ API rejects
-                  // Replace domain names with shortened versions to avoid content policy issues
-                  replyText = replyText
-                    .replace(/clawdhub\.com/g, 'clawdhub')
-                    .replace(/https?:\/\/[^\s)]+/g, '[link]');  // Replace URLs with [link] placeholder
-
-                  // QQ API has a message length limit (approximately 4000 characters)
-                  // Truncate if necessary to avoid API rejection
-                  const MAX_MESSAGE_LENGTH = 2000; // Try smaller limit to be safe
-                  if (replyText.length > MAX_MESSAGE_LENGTH) {
-                    const truncateMsg = '\n\n...(消息过长，已截断)';
-                    replyText = replyText.slice(0, MAX_MESSAGE_LENGTH - truncateMsg.length) + truncateMsg;
-                    console.log(`[QQ-Channel] Truncated long message from ${payload.text.length} to ${replyText.length} chars`);
-                  }
-
-                  // Log the message size for debugging
-                  console.log(`[QQ-Channel] Message size: ${replyText.length} chars, content preview: ${replyText.slice(0, 80).replace(/\n/g, ' ')}...`);
-
-                  // Deduplication: Skip if we already sent the same reply to this message recently
-                  const messageKey = `${message.channel_id}:${message.id}`;
-                  const lastReply = recentReplies.get(messageKey);
-                  const now = Date.now();
-
-                  if (lastReply && lastReply.text === replyText && (now - lastReply.timestamp) < REPLY_DEDUP_WINDOW_MS) {
-                    console.log('[QQ-Channel] Skipping duplicate reply to message:', message.id);
-                    return;
-                  }
+                  if (!payload.text) return;
 
-                  console.log('[QQ-Channel] Sending AI reply:', replyText.slice(0, 100) + (replyText.length > 100 ? '...' : ''));
-
-                  // Use different API for direct messages vs channel messages
-                  if (isDirect && message.guild_id) {
-                    // For DMs, use /dms/{guild_id}/messages
-                    await client.sendDirectMessage(message.guild_id, {
-                      content: replyText,
-                      msg_id: message.id,  // Reply to the original message
-                    });
-                  } else {
-                    // For channel messages, use /channels/{channel_id}/messages
-                    await client.sendChannelMessage(message.channel_id, {
-                      content: replyText,
-                      msg_id: message.id,  // Reply to the original message
-                    });
-                  }
-
-                  // Record this reply
-                  recentReplies.set(messageKey, { text: replyText, timestamp: now });
-
-                  // Cleanup old entries
-                  for (const [key, value] of recentReplies.entries()) {
-                    if (now - value.timestamp > REPLY_DEDUP_WINDOW_MS) {
-                      recentReplies.delete(key);
-                    }
-                  }
-
-                  console.log('[QQ-Channel] AI reply sent successfully');
+                  await client.createThread(
+                    forum.channelId,
+                    buildThreadReply(threadTitles.get(forum.threadId), forum.threadId, toQQMarkdown(payload.text))
+                  );
+                  console.log('[QQ-Channel] Forum answer published for thread:', forum.threadId);
                 },
                 onError: (err, info) => {
-                  console.error(`[QQ-Channel] ${info.kind} reply failed:`, err);
+                  if (isQQApiError(err)) recordApiError(accountId, err);
+                  console.error(`[QQ-Channel] ${info.kind} forum reply failed:`, err);
                 },
               },
             });
           } catch (err) {
-            console.error('[QQ-Channel] Failed to dispatch reply:', err);
+            console.error('[QQ-Channel] Failed to dispatch forum reply:', err);
           }
         },
 
+        onInteraction: async (interaction: InteractionPayload) => {
+          // Acknowledge first so QQ does not show the click as failed
+          try {
+            await client.acknowledgeInteraction(interaction.id);
+          } catch (error) {
+            console.error(`[QQ-Channel] Failed to acknowledge interaction ${interaction.id}:`, error);
+          }
+
+          const inbound = interactionToInbound(interaction);
+          if (!inbound) {
+            console.log(`[QQ-Channel] Ignoring interaction ${interaction.id} (chat type ${interaction.chat_type})`);
+            return;
+          }
+
+          // The button data is routed into the same session as if the user had typed it
+          await handleInbound(inbound);
+        },
+
+        onMessageAudit: (audit: MessageAuditPayload, passed: boolean) => {
+          const held = getAuditTracker(accountId).resolve(audit, passed);
+
+          // Once passed the message can also be recalled by its final id
+          const sent = getSentMessages(accountId).get(audit.audit_id);
+          if (passed && sent && audit.message_id) {
+            getSentMessages(accountId).record(audit.message_id, sent.scene, sent.targetId);
+          }
+
+          if (passed) {
+            console.log(`[QQ-Channel] Message audit ${audit.audit_id} passed, message id ${audit.message_id}`);
+          } else if (held) {
+            // Log what was censored so rejected agent replies can be reviewed
+            console.warn(`[QQ-Channel] Message audit ${audit.audit_id} rejected, reply to ${held.targetId} not delivered: ${held.preview}`);
+          }
+        },
+
+        onDirectoryEvent: (event: DirectoryEvent) => {
+          directory.apply(event);
+        },
+
+        onReaction: async (reaction: ReactionPayload, added: boolean) => {
+          // Ignore the bot's own reactions
+          if (reaction.user_id === botUsers.get(accountId)?.id) return;
+
+          // Reaction events carry no member roles, they are looked up when a role filter applies
+          const access = checkAccess(account.access, await withMemberRoles(client, account.access, {
+            scene: 'channel',
+            userId: reaction.user_id,
+            guildId: reaction.guild_id,
+            channelId: reaction.channel_id,
+          }));
+          if (!access.allowed) {
+            console.log(`[QQ-Channel] Ignoring reaction from ${reaction.user_id}: ${access.reason}`);
+            return;
+          }
+
+          const core = getQQRuntime();
+          const cfg = core.config.loadConfig();
+          const route = core.channel.routing.resolveAgentRoute({
+            cfg,
+            channel: 'qq-channel',
+            accountId,
+            peer: { kind: 'channel', id: reaction.channel_id },
+          });
+
+          // Reactions are lightweight: queued as a system event instead of starting an agent run
+          const text = formatReactionEvent(reaction, added);
+          console.log(`[QQ-Channel] ${text}`);
+          core.system.enqueueSystemEvent(text, {
+            sessionKey: route.sessionKey,
+            contextKey: `qq-channel:reaction:${reaction.channel_id}:${reaction.target.id}:${reaction.user_id}:${reaction.emoji.type}:${reaction.emoji.id}:${added ? 'add' : 'remove'}`,
+          });
+        },
+
         onReady: (sessionId: string, botUser: { id: string; username: string }) => {
           console.log(`[QQ-Channel] Account ${accountId} ready: ${botUser.username} (${botUser.id})`);
+          botUsers.set(accountId, botUser);
+        },
+
+        onResumed: (sessionId: string) => {
+          console.log(`[QQ-Channel] Account ${accountId} resumed session ${sessionId}`);
+        },
+
+        onHeartbeat: (latencyMs: number) => {
+          if (getQQRuntime().logging.shouldLogVerbose()) {
+            console.log(`[QQ-Channel] Account ${accountId} heartbeat RTT: ${latencyMs}ms`);
+          }
         },
 
         onError: (error: Error) => {
@@ -430,7 +1543,7 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
 
       activeRuntimes.set(accountId, runtime);
 
-      // Start the runtime
+      // Start one gateway connection per shard
       await runtime.start();
 
       // Return stop handler
@@ -439,7 +1552,13 @@ export const qqChannelPlugin: ChannelPlugin<QQChannelAccount> = {
         if (rt) {
           await rt.stop();
           activeRuntimes.delete(accountId);
+          apiClients.get(accountId)?.close();
           apiClients.delete(accountId);
+          activeQuotas.delete(accountId);
+          replyBudgets.delete(accountId);
+          auditTrackers.delete(accountId);
+          directories.delete(accountId);
+          botUsers.delete(accountId);
         }
       };
     },
@@ -0,0 +1,126 @@
+/**
+ * QQ Channel guild and channel directory
+ * Caches guild and channel names so transcripts and targets can use names instead of numeric ids
+ */
+
+import type { QQApiClient } from './api/client.js';
+import type { Channel, DirectoryEvent, Guild } from './types.js';
+
+// Page size of /users/@me/guilds
+const GUILD_PAGE_SIZE = 100;
+
+export class GuildDirectory {
+  private guilds: Map<string, Guild> = new Map();
+  private channels: Map<string, Channel> = new Map();
+  private loaded = false;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Load every guild and its channels once, concurrent callers share the same load
+   */
+  ensureLoaded(client: QQApiClient): Promise<void> {
+    if (this.loaded) return Promise.resolve();
+    if (!this.loading) {
+      this.loading = this.load(client).finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Load every guild and its channels, replacing what is cached
+   * A guild whose channels cannot be listed keeps its name, its channels stay unknown
+   */
+  async load(client: QQApiClient): Promise<void> {
+    const guilds: Guild[] = [];
+    for (let after: string | undefined; ; ) {
+      const page = await client.listGuilds({ after, limit: GUILD_PAGE_SIZE });
+      guilds.push(...page);
+      if (page.length < GUILD_PAGE_SIZE) break;
+      after = page[page.length - 1].id;
+    }
+
+    const channels: Channel[] = [];
+    for (const guild of guilds) {
+      try {
+        channels.push(...(await client.listChannels(guild.id)));
+      } catch (error) {
+        console.warn(`[QQ-Channel] Failed to list channels of guild ${guild.id}:`, error);
+      }
+    }
+
+    this.guilds = new Map(guilds.map((guild) => [guild.id, guild]));
+    this.channels = new Map(channels.map((channel) => [channel.id, channel]));
+    this.loaded = true;
+
+    console.log(`[QQ-Channel] Directory loaded: ${this.guilds.size} guilds, ${this.channels.size} channels`);
+  }
+
+  /**
+   * Apply a guild or channel change from the gateway
+   */
+  apply(event: DirectoryEvent): void {
+    if (event.kind === 'guild') {
+      const { guild } = event;
+      if (event.action === 'delete') {
+        this.guilds.delete(guild.id);
+        for (const [id, channel] of this.channels) {
+          if (channel.guild_id === guild.id) this.channels.delete(id);
+        }
+      } else {
+        this.guilds.set(guild.id, { ...this.guilds.get(guild.id), ...guild });
+      }
+      return;
+    }
+
+    const { channel } = event;
+    if (event.action === 'delete') {
+      this.channels.delete(channel.id);
+    } else {
+      this.channels.set(channel.id, { ...this.channels.get(channel.id), ...channel });
+    }
+  }
+
+  getGuild(guildId: string): Guild | undefined {
+    return this.guilds.get(guildId);
+  }
+
+  getChannel(channelId: string): Channel | undefined {
+    return this.channels.get(channelId);
+  }
+
+  /**
+   * Guild name, or the id when the guild is unknown
+   */
+  guildName(guildId: string): string {
+    return this.guilds.get(guildId)?.name || guildId;
+  }
+
+  /**
+   * Channel name as "#name", or the id when the channel is unknown
+   */
+  channelName(channelId: string): string {
+    const name = this.channels.get(channelId)?.name;
+    return name ? `#${name}` : channelId;
+  }
+
+  /**
+   * Resolve an outbound target, "#channel-name" becomes the channel id and anything else is returned as is
+   */
+  resolveChannel(target: string): string {
+    if (!target.startsWith('#')) return target;
+
+    const name = target.slice(1).trim().toLowerCase();
+    const matches = [...this.channels.values()].filter((channel) => channel.name.toLowerCase() === name);
+
+    if (matches.length === 0) {
+      throw new Error(`Unknown QQ channel "${target}"`);
+    }
+    if (matches.length > 1) {
+      const candidates = matches.map((channel) => `${channel.id} (${this.guildName(channel.guild_id)})`).join(', ');
+      throw new Error(`QQ channel "${target}" is ambiguous, use one of the channel ids: ${candidates}`);
+    }
+    return matches[0].id;
+  }
+}
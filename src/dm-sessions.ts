@@ -0,0 +1,84 @@
+/**
+ * QQ Channel direct message sessions
+ * A DM to a guild user goes through a DMS session created from a guild they share with the bot,
+ * sessions are cached per user and persisted so they survive restarts
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+// Sessions are persisted next to the Clawdbot config
+const DM_SESSIONS_FILE = join(homedir(), '.clawdbot', 'qq-channel', 'dm-sessions.json');
+
+// DMS session with one user
+export interface DmSession {
+  // Guild id to send to with /dms/{guild_id}/messages
+  guildId: string;
+  channelId?: string;
+  // Guild the session was created from, needed to recreate it
+  sourceGuildId?: string;
+  createdAt: string;
+}
+
+/**
+ * DMS sessions per account and user, loaded lazily and written back on every change
+ */
+export class DmSessionStore {
+  private filePath: string;
+  private sessions: Record<string, Record<string, DmSession>> | null = null;
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = DM_SESSIONS_FILE) {
+    this.filePath = filePath;
+  }
+
+  async get(accountId: string, userId: string): Promise<DmSession | undefined> {
+    await this.load();
+    return this.sessions![accountId]?.[userId];
+  }
+
+  async set(accountId: string, userId: string, session: DmSession): Promise<void> {
+    await this.load();
+    const current = this.sessions![accountId]?.[userId];
+    if (current && current.guildId === session.guildId && current.sourceGuildId === session.sourceGuildId) return;
+
+    this.sessions![accountId] = { ...this.sessions![accountId], [userId]: session };
+    await this.save();
+  }
+
+  private load(): Promise<void> {
+    if (this.sessions) return Promise.resolve();
+    if (!this.loading) {
+      this.loading = readFile(this.filePath, 'utf8')
+        .then((text) => {
+          this.sessions = JSON.parse(text) as Record<string, Record<string, DmSession>>;
+        })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== 'ENOENT') {
+            console.warn(`[QQ-Channel] Failed to read DM sessions from ${this.filePath}, starting empty:`, error);
+          }
+          this.sessions = {};
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Write the sessions, one write at a time through a temporary file so a crash never leaves a partial file
+   */
+  private save(): Promise<void> {
+    const data = JSON.stringify(this.sessions, null, 2);
+    this.writing = this.writing
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(`${this.filePath}.tmp`, data);
+        await rename(`${this.filePath}.tmp`, this.filePath);
+      })
+      .catch((error) => {
+        console.warn(`[QQ-Channel] Failed to persist DM sessions to ${this.filePath}:`, error);
+      });
+    return this.writing;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * QQ Channel forum (帖子) helpers
+ */
+
+import { ThreadFormat } from './types.js';
+import type { CreateThreadRequest, ForumEvent, RichText } from './types.js';
+
+// Forum event flattened into what the agent needs
+export interface ForumMessage {
+  id: string;
+  threadId: string;
+  channelId: string;
+  guildId: string;
+  authorId: string;
+  title?: string;
+  text: string;
+  timestamp: string;
+}
+
+/**
+ * Extract readable text from a JSON encoded forum RichText
+ * Text elements are kept, links become "desc (url)" and images/videos become placeholders
+ */
+export function extractRichText(content: string): string {
+  let richText: RichText;
+  try {
+    richText = JSON.parse(content) as RichText;
+  } catch {
+    // Not JSON, already plain text
+    return content.trim();
+  }
+
+  const paragraphs = (richText.paragraphs ?? []).map((paragraph) =>
+    (paragraph.elems ?? [])
+      .map((elem) => {
+        if (elem.text) return elem.text.text;
+        if (elem.url) return elem.url.desc ? `${elem.url.desc} (${elem.url.url})` : elem.url.url;
+        if (elem.image) return '<media:image>';
+        if (elem.video) return '<media:video>';
+        return '';
+      })
+      .join('')
+  );
+
+  return paragraphs.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Flatten a thread, post or reply event
+ */
+export function normalizeForumEvent(event: ForumEvent): ForumMessage {
+  const { guild_id: guildId, channel_id: channelId, author_id: authorId } = event.payload;
+
+  switch (event.kind) {
+    case 'thread': {
+      const info = event.payload.thread_info;
+      return {
+        id: info.thread_id,
+        threadId: info.thread_id,
+        channelId,
+        guildId,
+        authorId,
+        title: extractRichText(info.title),
+        text: extractRichText(info.content),
+        timestamp: info.date_time,
+      };
+    }
+
+    case 'post': {
+      const info = event.payload.post_info;
+      return {
+        id: info.post_id,
+        threadId: info.thread_id,
+        channelId,
+        guildId,
+        authorId,
+        text: extractRichText(info.content),
+        timestamp: info.date_time,
+      };
+    }
+
+    case 'reply': {
+      const info = event.payload.reply_info;
+      return {
+        id: info.reply_id,
+        threadId: info.thread_id,
+        channelId,
+        guildId,
+        authorId,
+        text: extractRichText(info.content),
+        timestamp: info.date_time,
+      };
+    }
+  }
+}
+
+/**
+ * Build the thread that carries an answer to a forum thread
+ * The bot API can only publish threads, not comment on them, so answers are published as "回复：<title>"
+ */
+export function buildThreadReply(title: string | undefined, threadId: string, text: string): CreateThreadRequest {
+  return {
+    title: `回复：${title || threadId}`.slice(0, 100),
+    content: text,
+    format: ThreadFormat.Markdown,
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * QQ Channel gateway intent selection
+ */
+
+import { Intents } from './types.js';
+import type { MessageMode, QQChannelAccount } from './types.js';
+
+export type IntentName = keyof typeof Intents;
+
+export const INTENT_NAMES = Object.keys(Intents).filter((key) => isNaN(Number(key))) as IntentName[];
+
+export const DEFAULT_MESSAGE_MODE: MessageMode = 'public';
+
+// Intents subscribed by each message mode
+const MODE_INTENTS: Record<MessageMode, number> = {
+  // Public-domain bots only receive messages that @ the bot (AT_MESSAGE_CREATE)
+  public:
+    Intents.GUILDS |
+    Intents.GUILD_MEMBERS |
+    Intents.PUBLIC_GUILD_MESSAGES |
+    Intents.GUILD_MESSAGE_REACTIONS |
+    Intents.DIRECT_MESSAGE |
+    Intents.INTERACTION |
+    Intents.MESSAGE_AUDIT,
+  // Private-domain bots receive every guild message (MESSAGE_CREATE) and forum events
+  private:
+    Intents.GUILDS |
+    Intents.GUILD_MEMBERS |
+    Intents.GUILD_MESSAGES |
+    Intents.GUILD_MESSAGE_REACTIONS |
+    Intents.DIRECT_MESSAGE |
+    Intents.FORUMS_EVENT |
+    Intents.INTERACTION |
+    Intents.MESSAGE_AUDIT,
+};
+
+// Intents that need extra permission on the QQ open platform
+const PRIVILEGED_INTENTS: number[] = [
+  Intents.GUILD_MESSAGES,
+  Intents.GROUP_AND_C2C_EVENT,
+  Intents.FORUMS_EVENT,
+  Intents.AUDIO_ACTION,
+];
+
+/**
+ * Resolve the message mode of an account
+ */
+export function resolveMessageMode(account: QQChannelAccount): MessageMode {
+  return account.messageMode === 'private' ? 'private' : DEFAULT_MESSAGE_MODE;
+}
+
+/**
+ * Resolve the intent bitmask for an account
+ * An explicit intents list overrides the intents derived from the message mode
+ */
+export function resolveIntents(account: QQChannelAccount): number {
+  if (account.intents && account.intents.length > 0) {
+    return account.intents.reduce((mask, name) => {
+      const value = Intents[name as IntentName];
+      if (value === undefined) {
+        throw new Error(`Unknown QQ intent "${name}", expected one of: ${INTENT_NAMES.join(', ')}`);
+      }
+      return mask | value;
+    }, 0);
+  }
+
+  // Group and C2C events are privileged, subscribing without the permission closes the gateway with 4014
+  const groupIntents = account.groupAndC2C ? Intents.GROUP_AND_C2C_EVENT : 0;
+  return MODE_INTENTS[resolveMessageMode(account)] | groupIntents;
+}
+
+/**
+ * List the intent names contained in a bitmask
+ */
+export function describeIntents(intents: number): IntentName[] {
+  return INTENT_NAMES.filter((name) => (intents & Intents[name]) !== 0);
+}
+
+/**
+ * List the privileged intent names contained in a bitmask
+ * Used to explain which subscription QQ rejected with close code 4014
+ */
+export function describePrivilegedIntents(intents: number): IntentName[] {
+  return describeIntents(intents).filter((name) => PRIVILEGED_INTENTS.includes(Intents[name]));
+}
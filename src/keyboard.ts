@@ -0,0 +1,153 @@
+/**
+ * QQ Channel message keyboards (buttons) and button interactions
+ */
+
+import { InteractionChatType } from './types.js';
+import type {
+  InteractionPayload,
+  KeyboardButton,
+  MessageKeyboard,
+  QQInboundMessage,
+  SendMessageRequest,
+} from './types.js';
+
+// Button action types
+const ACTION_JUMP = 0;
+const ACTION_CALLBACK = 1;
+// Everyone in the conversation may click
+const PERMISSION_EVERYONE = 2;
+// Blue button
+const STYLE_PRIMARY = 1;
+
+// Button as agents describe it: a callback sending data (defaults to the label) or a link
+export interface ButtonSpec {
+  label: string;
+  data?: string;
+  url?: string;
+}
+
+// Keyboard as agents describe it in ReplyPayload.channelData['qq-channel'].keyboard
+export type KeyboardSpec = { templateId: string } | { buttons: ButtonSpec[][] };
+
+/**
+ * Read the keyboard an agent attached to a reply, if any
+ */
+export function readKeyboardSpec(channelData: Record<string, unknown> | undefined): KeyboardSpec | null {
+  const qqData = channelData?.['qq-channel'] as { keyboard?: KeyboardSpec } | undefined;
+  const keyboard = qqData?.keyboard;
+  if (!keyboard) return null;
+
+  if ('templateId' in keyboard && keyboard.templateId) return keyboard;
+  if ('buttons' in keyboard && Array.isArray(keyboard.buttons) && keyboard.buttons.length > 0) return keyboard;
+  return null;
+}
+
+/**
+ * Build a QQ keyboard from a template id or rows of buttons
+ */
+export function buildKeyboard(spec: KeyboardSpec): MessageKeyboard {
+  if ('templateId' in spec) {
+    return { id: spec.templateId };
+  }
+
+  return {
+    content: {
+      rows: spec.buttons.map((row, rowIndex) => ({
+        buttons: row.map((button, columnIndex): KeyboardButton => ({
+          id: `${rowIndex}-${columnIndex}`,
+          render_data: {
+            label: button.label,
+            visited_label: button.label,
+            style: STYLE_PRIMARY,
+          },
+          action: button.url
+            ? {
+                type: ACTION_JUMP,
+                permission: { type: PERMISSION_EVERYONE },
+                data: button.url,
+                unsupport_tips: '当前版本不支持该按钮',
+              }
+            : {
+                type: ACTION_CALLBACK,
+                permission: { type: PERMISSION_EVERYONE },
+                data: button.data ?? button.label,
+                unsupport_tips: '当前版本不支持该按钮',
+              },
+        })),
+      })),
+    },
+  };
+}
+
+/**
+ * Attach a keyboard to a message, keyboards are only shown on markdown messages
+ */
+export function withKeyboard(message: SendMessageRequest, keyboard: MessageKeyboard): SendMessageRequest {
+  if (message.markdown) {
+    return { ...message, keyboard };
+  }
+
+  const { content, ...rest } = message;
+  return { ...rest, markdown: { content: content ?? '' }, keyboard };
+}
+
+/**
+ * Turn a button click into an inbound message in the conversation the button was shown in
+ * The button data becomes the user's input, replies go through event_id since there is no user message to reply to
+ */
+export function interactionToInbound(interaction: InteractionPayload): QQInboundMessage | null {
+  const content = interaction.data.resolved.button_data ?? '';
+  const timestamp = interaction.timestamp || new Date().toISOString();
+  const ids = { eventId: interaction.id, interactionId: interaction.id };
+
+  switch (interaction.chat_type) {
+    case InteractionChatType.Guild: {
+      const userId = interaction.data.resolved.user_id;
+      if (!interaction.channel_id || !userId) return null;
+      return {
+        scene: 'channel',
+        message: {
+          id: interaction.id,
+          channel_id: interaction.channel_id,
+          guild_id: interaction.guild_id ?? '',
+          content,
+          timestamp,
+          author: { id: userId, username: '', bot: false },
+        },
+        ...ids,
+      };
+    }
+
+    case InteractionChatType.Group: {
+      if (!interaction.group_openid || !interaction.group_member_openid) return null;
+      return {
+        scene: 'group',
+        message: {
+          id: interaction.id,
+          group_openid: interaction.group_openid,
+          content,
+          timestamp,
+          author: { id: interaction.group_member_openid, member_openid: interaction.group_member_openid },
+        },
+        ...ids,
+      };
+    }
+
+    case InteractionChatType.C2C: {
+      if (!interaction.user_openid) return null;
+      return {
+        scene: 'c2c',
+        message: {
+          id: interaction.id,
+          content,
+          timestamp,
+          author: { id: interaction.user_openid, user_openid: interaction.user_openid },
+        },
+        ...ids,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
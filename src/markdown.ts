@@ -0,0 +1,186 @@
+/**
+ * QQ markdown formatting for agent replies
+ */
+
+import type { MarkdownTemplateConfig, MessageFormat, QQChannelAccount, SendMessageRequest } from './types.js';
+
+export const DEFAULT_MESSAGE_FORMAT: MessageFormat = 'text';
+
+// Raw HTML tags: lowercase tag names with name="value" attributes only,
+// so comparisons like a<b and c>d and generics like List<String> or Pair<S> survive.
+// QQ's own <qqbot-...> mention tags are not in the list and are kept
+const HTML_TAG_SOURCE =
+  '<\\/?(?:' +
+  'a|abbr|b|big|blockquote|body|br|button|caption|center|cite|code|col|dd|del|details|div|dl|dt|em|' +
+  'font|footer|form|h[1-6]|head|header|hr|html|i|iframe|img|input|ins|kbd|label|li|mark|ol|p|pre|q|' +
+  's|samp|script|section|small|span|strike|strong|style|sub|summary|sup|table|tbody|td|th|thead|tr|' +
+  'tt|u|ul|var|video' +
+  ')(?:\\s+[\\w:-]+\\s*=\\s*(?:"[^"]*"|\'[^\']*\'|[^\\s"\'<>]+))*\\s*\\/?>';
+
+// Inline spans converted on their own: code spans and links are kept, autolinks and bare URLs become links,
+// HTML tags are dropped
+const INLINE_SPAN = new RegExp(
+  '(`+)[\\s\\S]*?\\1|!?\\[[^\\]]*\\]\\([^)]*\\)|<(https?:\\/\\/[^>\\s]+)>|(' +
+    HTML_TAG_SOURCE +
+    ')|https?:\\/\\/[\\w\\-.~:/?#@!$&+,;=%]+',
+  'g'
+);
+
+// Punctuation that ends a sentence rather than a bare URL
+const TRAILING_URL_PUNCTUATION = /[.,;:!?]+$/;
+
+// Double underscores around text, not inside a word like snake__case__name
+const UNDERSCORE_EMPHASIS = /(?<!\w)__(?!\s)(.+?)(?<!\s)__(?!\w)/g;
+
+// Python style dunder names such as __init__ are identifiers, not emphasis
+const DUNDER_NAME = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Resolve the reply format of an account
+ */
+export function resolveMessageFormat(account: QQChannelAccount): MessageFormat {
+  const format = account.messageFormat;
+  if (format === 'markdown') return 'markdown';
+  if (format === 'template' && account.markdownTemplate?.id) return 'template';
+  return DEFAULT_MESSAGE_FORMAT;
+}
+
+/**
+ * Convert agent markdown into the subset QQ renders
+ * QQ supports headings up to h3, emphasis, links, images, lists, quotes, rules and code blocks,
+ * but not tables, task lists, raw HTML or bare URLs
+ */
+export function toQQMarkdown(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of lines) {
+    // Leave code blocks untouched
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      output.push(line);
+      continue;
+    }
+    if (inCodeBlock) {
+      output.push(line);
+      continue;
+    }
+
+    // Drop table separator rows and flatten table rows into plain lines
+    if (/^[\s|:-]+$/.test(line) && line.includes('|') && line.includes('---')) {
+      continue;
+    }
+    let converted = line;
+    if (/^\s*\|.*\|\s*$/.test(converted)) {
+      converted = converted
+        .trim()
+        .replace(/^\||\|$/g, '')
+        .split('|')
+        .map((cell) => cell.trim())
+        .join(' | ');
+    }
+
+    converted = converted
+      // Headings deeper than h3 become bold text
+      .replace(/^\s*#{4,6}\s+(.+?)\s*#*\s*$/, '**$1**')
+      // Task list items
+      .replace(/^(\s*[-*+])\s+\[ \]\s+/, '$1 ☐ ')
+      .replace(/^(\s*[-*+])\s+\[[xX]\]\s+/, '$1 ☑ ');
+    output.push(convertInline(converted));
+  }
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Convert the inline markup of one line, leaving code spans and existing links untouched
+ */
+function convertInline(line: string): string {
+  let output = '';
+  let last = 0;
+
+  for (const match of line.matchAll(INLINE_SPAN)) {
+    output += convertText(line.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const [span, codeFence, autolink, htmlTag] = match;
+    if (htmlTag) {
+      // QQ does not render raw HTML
+      continue;
+    }
+    if (codeFence || !span.startsWith('http')) {
+      // Code spans, links and images are already valid, autolinks must be written as [text](url)
+      output += autolink ? `[${autolink}](${autolink})` : span;
+    } else {
+      // A bare URL, sentence punctuation after it is not part of it
+      const url = span.replace(TRAILING_URL_PUNCTUATION, '');
+      output += `[${url}](${url})${span.slice(url.length)}`;
+    }
+  }
+
+  return output + convertText(line.slice(last));
+}
+
+/**
+ * Convert inline markup of text outside code spans and links
+ */
+function convertText(text: string): string {
+  // Underscore emphasis is not rendered
+  return text.replace(UNDERSCORE_EMPHASIS, (span, inner: string) => (DUNDER_NAME.test(inner) ? span : `**${inner}**`));
+}
+
+/**
+ * Fill a markdown template's parameters from the reply text
+ * {title} is the first line, {body} the remaining lines, {text} the whole reply
+ */
+export function buildTemplateParams(
+  template: MarkdownTemplateConfig,
+  text: string
+): Array<{ key: string; values: string[] }> {
+  const [title = '', ...rest] = text.trim().split('\n');
+  const values: Record<string, string> = {
+    text: text.trim(),
+    title: title.replace(/^#+\s*/, '').trim(),
+    body: rest.join('\n').trim(),
+  };
+
+  return Object.entries(template.params ?? {}).map(([key, pattern]) => ({
+    key,
+    values: [pattern.replace(/\{(text|title|body)\}/g, (_, name: string) => values[name])],
+  }));
+}
+
+/**
+ * Strip content the QQ API rejects from plain text replies
+ */
+export function toPlainText(text: string): string {
+  // Filter sensitive URLs that QQ API rejects
+  // Replace domain names with shortened versions to avoid content policy issues
+  return text
+    .replace(/clawdhub\.com/g, 'clawdhub')
+    .replace(/https?:\/\/[^\s)]+/g, '[link]');  // Replace URLs with [link] placeholder
+}
+
+/**
+ * Build the message body for a reply in the account's configured format
+ */
+export function formatReplyMessage(account: QQChannelAccount, text: string): SendMessageRequest {
+  switch (resolveMessageFormat(account)) {
+    case 'markdown':
+      return { markdown: { content: toQQMarkdown(text) } };
+
+    case 'template': {
+      const template = account.markdownTemplate!;
+      return {
+        markdown: {
+          custom_template_id: template.id,
+          params: buildTemplateParams(template, toQQMarkdown(text)),
+        },
+      };
+    }
+
+    case 'text':
+      return { content: toPlainText(text) };
+  }
+}
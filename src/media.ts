@@ -0,0 +1,131 @@
+/**
+ * QQ Channel outbound media handling
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { QQApiClient } from './api/client.js';
+import { FileType, MessageType } from './types.js';
+import type {
+  MessageScene,
+  SendMessageRequest,
+  SendMessageResponse,
+  SendV2MessageResponse,
+  UploadMediaRequest,
+} from './types.js';
+
+// Content types by file extension for local media
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.mp4': 'video/mp4',
+  '.silk': 'audio/silk',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+};
+
+// Media to send: either a URL QQ fetches itself or bytes we upload
+export type MediaSource =
+  | { kind: 'remote'; url: string; contentType: string }
+  | { kind: 'local'; data: Buffer; filename: string; contentType: string };
+
+/**
+ * Resolve a mediaUrl into a remote URL or local bytes
+ * Accepts http(s) URLs, file:// URLs, absolute paths and base64 data URLs
+ */
+export async function resolveMediaSource(mediaUrl: string): Promise<MediaSource> {
+  if (/^https?:\/\//i.test(mediaUrl)) {
+    // Remote media without a known extension is assumed to be an image, like the old image field
+    const pathname = new URL(mediaUrl).pathname;
+    return { kind: 'remote', url: mediaUrl, contentType: contentTypeOf(pathname, 'image/jpeg') };
+  }
+
+  if (mediaUrl.startsWith('data:')) {
+    const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(mediaUrl);
+    if (!match) {
+      throw new Error('Malformed data URL');
+    }
+    const contentType = match[1] || 'application/octet-stream';
+    const data = match[2]
+      ? Buffer.from(match[3], 'base64')
+      : Buffer.from(decodeURIComponent(match[3]), 'utf8');
+    const extension = Object.keys(CONTENT_TYPES).find((ext) => CONTENT_TYPES[ext] === contentType) ?? '';
+    return { kind: 'local', data, filename: `upload${extension}`, contentType };
+  }
+
+  const path = mediaUrl.startsWith('file://')
+    ? fileURLToPath(mediaUrl)
+    : /^(\/|[a-zA-Z]:[\\/])/.test(mediaUrl) ? mediaUrl : null;
+  if (!path) {
+    throw new Error(`Unsupported media URL: ${mediaUrl.slice(0, 64)}`);
+  }
+
+  const data = await readFile(path);
+  return { kind: 'local', data, filename: basename(path), contentType: contentTypeOf(path) };
+}
+
+/**
+ * Send a media message, picking the upload mechanism the scene supports
+ * Channels and DMs take a remote image URL or a multipart file_image,
+ * groups and C2C chats need the file uploaded to /files first and sent as msg_type 7
+ */
+export async function sendMediaMessage(
+  client: QQApiClient,
+  scene: MessageScene,
+  targetId: string,
+  mediaUrl: string,
+  message: SendMessageRequest
+): Promise<SendMessageResponse | SendV2MessageResponse> {
+  const source = await resolveMediaSource(mediaUrl);
+
+  switch (scene) {
+    case 'channel':
+    case 'direct': {
+      if (source.kind === 'remote') {
+        return client.sendMessage(scene, targetId, { ...message, image: source.url });
+      }
+      if (!source.contentType.startsWith('image/')) {
+        throw new Error(`Only images can be sent to QQ channels, got ${source.contentType}`);
+      }
+
+      const image = new Blob([source.data], { type: source.contentType });
+      return scene === 'channel'
+        ? client.sendChannelFileImage(targetId, image, source.filename, message)
+        : client.sendDirectFileImage(targetId, image, source.filename, message);
+    }
+
+    case 'group':
+    case 'c2c': {
+      const upload: UploadMediaRequest = {
+        file_type: fileTypeOf(source.contentType),
+        srv_send_msg: false,
+        ...(source.kind === 'remote' ? { url: source.url } : { file_data: source.data.toString('base64') }),
+      };
+      const uploaded = scene === 'group'
+        ? await client.uploadGroupMedia(targetId, upload)
+        : await client.uploadC2CMedia(targetId, upload);
+
+      return client.sendMessage(scene, targetId, {
+        ...message,
+        msg_type: MessageType.Media,
+        media: { file_info: uploaded.file_info },
+      });
+    }
+  }
+}
+
+function contentTypeOf(path: string, fallback = 'application/octet-stream'): string {
+  return CONTENT_TYPES[extname(path).toLowerCase()] ?? fallback;
+}
+
+function fileTypeOf(contentType: string): FileType {
+  if (contentType.startsWith('image/')) return FileType.Image;
+  if (contentType.startsWith('video/')) return FileType.Video;
+  if (contentType.startsWith('audio/')) return FileType.Voice;
+  return FileType.File;
+}
@@ -0,0 +1,84 @@
+/**
+ * QQ Channel mention parsing and formatting
+ */
+
+import type { MessageAuthor, MessageScene } from './types.js';
+
+// Guild mention syntax: <@!user_id> (the ! is optional)
+const MENTION_PATTERN = /<@!?(\d+)>/g;
+
+export interface ParsedMentions {
+  // Content with the bot mention removed and other mentions rendered as @nick
+  text: string;
+  wasMentioned: boolean;
+  mentionedUsers: MessageAuthor[];
+}
+
+/**
+ * Strip the bot's own mention and turn other user mentions into readable @nick text
+ */
+export function parseMentions(
+  content: string,
+  mentions: MessageAuthor[] | undefined,
+  botUserId: string | undefined
+): ParsedMentions {
+  const byId = new Map((mentions ?? []).map((user) => [user.id, user]));
+  let wasMentioned = botUserId !== undefined && byId.has(botUserId);
+
+  const text = content
+    .replace(MENTION_PATTERN, (_, id: string) => {
+      if (id === botUserId) {
+        wasMentioned = true;
+        return '';
+      }
+      const user = byId.get(id);
+      return `@${user?.username || id}`;
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+
+  return {
+    text,
+    wasMentioned,
+    mentionedUsers: (mentions ?? []).filter((user) => user.id !== botUserId),
+  };
+}
+
+/**
+ * Format a mention of a user in the syntax the scene supports
+ * Returns null for scenes that cannot mention users
+ */
+export function formatMention(scene: MessageScene, userId: string): string | null {
+  switch (scene) {
+    case 'channel':
+      return `<@!${userId}>`;
+    case 'group':
+      return `<qqbot-at-user id="${userId}" />`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replace @nick in outbound text with real mentions of users known from the conversation
+ */
+export function applyOutboundMentions(
+  text: string,
+  scene: MessageScene,
+  users: Array<{ id: string; name: string }>
+): string {
+  let result = text;
+
+  // Longest names first so "@Alice Smith" wins over "@Alice"
+  const sorted = [...users].filter((user) => user.name).sort((a, b) => b.name.length - a.name.length);
+  for (const user of sorted) {
+    const mention = formatMention(scene, user.id);
+    if (!mention) continue;
+
+    const escaped = user.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The @ must start a word, so e-mail addresses like a@Alice.com are left alone
+    result = result.replace(new RegExp(`(^|[^\\w])@${escaped}(?![\\w])`, 'g'), (_, before: string) => before + mention);
+  }
+
+  return result;
+}
@@ -0,0 +1,45 @@
+/**
+ * QQ Channel emoji reaction helpers
+ */
+
+import { EmojiType } from './types.js';
+import type { Emoji, ReactionPayload } from './types.js';
+
+/**
+ * Parse an emoji given as "type:id" (e.g. "1:4") or as a unicode emoji character
+ */
+export function parseEmoji(emoji: string): Emoji {
+  const trimmed = emoji.trim();
+
+  const explicit = /^([12]):(\w+)$/.exec(trimmed);
+  if (explicit) {
+    return { type: Number(explicit[1]) as EmojiType, id: explicit[2] };
+  }
+
+  const codePoint = trimmed.codePointAt(0);
+  if (codePoint === undefined || codePoint < 0x80) {
+    throw new Error(`Invalid emoji "${emoji}", expected "type:id" or a unicode emoji`);
+  }
+
+  return { type: EmojiType.Unicode, id: String(codePoint) };
+}
+
+/**
+ * Render an emoji for display, system emoji have no unicode form
+ */
+export function describeEmoji(emoji: Emoji): string {
+  if (emoji.type === EmojiType.Unicode && /^\d+$/.test(emoji.id)) {
+    return String.fromCodePoint(Number(emoji.id));
+  }
+  return `[表情${emoji.id}]`;
+}
+
+/**
+ * Describe a reaction event for the agent
+ */
+export function formatReactionEvent(reaction: ReactionPayload, added: boolean): string {
+  const emoji = describeEmoji(reaction.emoji);
+  return added
+    ? `QQ reaction added: ${emoji} by ${reaction.user_id} on message ${reaction.target.id}`
+    : `QQ reaction removed: ${emoji} by ${reaction.user_id} from message ${reaction.target.id}`;
+}
@@ -0,0 +1,202 @@
+/**
+ * QQ Channel passive reply budgets and active message quotas
+ */
+
+import type { MessageScene } from './types.js';
+
+// How long after an inbound message QQ still accepts a passive reply to it
+const PASSIVE_REPLY_WINDOW_MS: Record<MessageScene, number> = {
+  channel: 5 * 60 * 1000,
+  direct: 5 * 60 * 1000,
+  group: 5 * 60 * 1000,
+  c2c: 60 * 60 * 1000,
+};
+
+// Passive replies QQ accepts per msg_id (and per event_id)
+export const MAX_PASSIVE_REPLIES = 5;
+
+// Active messages per quota window, QQ's limits vary by bot so these are conservative defaults
+// Guild channels and guild direct messages are limited per day, QQ groups and C2C users per month
+const ACTIVE_QUOTA: Record<QuotaScope, { limit: number; window: QuotaWindow }> = {
+  guild: { limit: 20, window: 'day' },
+  direct: { limit: 2, window: 'day' },
+  group: { limit: 4, window: 'month' },
+  c2c: { limit: 4, window: 'month' },
+};
+
+export type QuotaScope = 'guild' | 'direct' | 'group' | 'c2c';
+
+type QuotaWindow = 'day' | 'month';
+
+export interface QuotaKey {
+  scope: QuotaScope;
+  id: string;
+}
+
+// How a single outbound message is sent
+export type ReplyMode =
+  | { kind: 'passive'; msgId: string; msgSeq: number }
+  | { kind: 'event'; eventId: string; msgSeq: number }
+  | { kind: 'active' };
+
+/**
+ * Tracks how many passive replies one inbound message has left
+ * Falls back to event_id once msg_id is used up, and to an active send once both are
+ */
+export class PassiveReplyBudget {
+  private scene: MessageScene;
+  private msgId?: string;
+  private eventId?: string;
+  private receivedAt: number;
+  private msgIdReplies = 0;
+  private eventIdReplies = 0;
+  private msgSeq = 0;
+
+  constructor(scene: MessageScene, msgId: string | undefined, eventId?: string, receivedAt: number = Date.now()) {
+    this.scene = scene;
+    this.msgId = msgId;
+    this.eventId = eventId;
+    this.receivedAt = receivedAt;
+  }
+
+  /**
+   * Whether the passive reply window is still open
+   */
+  isWindowOpen(now: number = Date.now()): boolean {
+    return now - this.receivedAt < PASSIVE_REPLY_WINDOW_MS[this.scene];
+  }
+
+  /**
+   * Number of passive replies still available
+   */
+  remaining(now: number = Date.now()): number {
+    if (!this.isWindowOpen(now)) return 0;
+
+    const msgIdReplies = this.msgId ? MAX_PASSIVE_REPLIES - this.msgIdReplies : 0;
+    const eventReplies = this.eventId ? MAX_PASSIVE_REPLIES - this.eventIdReplies : 0;
+    return msgIdReplies + eventReplies;
+  }
+
+  /**
+   * Reserve the next reply and return how it must be sent
+   */
+  next(now: number = Date.now()): ReplyMode {
+    if (this.isWindowOpen(now)) {
+      if (this.msgId && this.msgIdReplies < MAX_PASSIVE_REPLIES) {
+        this.msgIdReplies++;
+        return { kind: 'passive', msgId: this.msgId, msgSeq: ++this.msgSeq };
+      }
+
+      if (this.eventId && this.eventIdReplies < MAX_PASSIVE_REPLIES) {
+        this.eventIdReplies++;
+        return { kind: 'event', eventId: this.eventId, msgSeq: ++this.msgSeq };
+      }
+    }
+
+    return { kind: 'active' };
+  }
+
+  /**
+   * Close the window early, used when QQ rejects a passive reply as expired
+   */
+  expire(): void {
+    this.receivedAt = -Infinity;
+  }
+}
+
+/**
+ * Passive reply budgets by inbound message id
+ * Agent replies and outbound sends to the same message share one budget, so msg_seq never repeats
+ */
+export class ReplyBudgetRegistry {
+  private budgets: Map<string, PassiveReplyBudget> = new Map();
+
+  /**
+   * Get the budget of a message, created with the given details if it is not known yet
+   */
+  getOrCreate(
+    scene: MessageScene,
+    msgId: string,
+    eventId?: string,
+    receivedAt: number = Date.now()
+  ): PassiveReplyBudget {
+    let budget = this.budgets.get(msgId);
+    if (!budget) {
+      this.prune();
+      budget = new PassiveReplyBudget(scene, msgId, eventId, receivedAt);
+      this.budgets.set(msgId, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * Forget budgets whose reply window has closed
+   */
+  private prune(now: number = Date.now()): void {
+    for (const [msgId, budget] of this.budgets) {
+      if (!budget.isWindowOpen(now)) this.budgets.delete(msgId);
+    }
+  }
+}
+
+/**
+ * Tracks active message usage per guild, DM user, group and C2C user, each resetting with its quota window
+ */
+export class ActiveQuotaTracker {
+  private usage: Map<string, { period: string; count: number }> = new Map();
+
+  /**
+   * Number of active messages left in the current window for a key
+   */
+  remaining(key: QuotaKey, now: Date = new Date()): number {
+    const { limit, window } = ACTIVE_QUOTA[key.scope];
+    const entry = this.usage.get(quotaKeyString(key));
+    const used = entry && entry.period === periodOf(window, now) ? entry.count : 0;
+    return Math.max(0, limit - used);
+  }
+
+  /**
+   * Consume one active message, returns false if the quota is exhausted
+   */
+  tryConsume(key: QuotaKey, now: Date = new Date()): boolean {
+    if (this.remaining(key, now) <= 0) return false;
+
+    const id = quotaKeyString(key);
+    const period = periodOf(ACTIVE_QUOTA[key.scope].window, now);
+    const entry = this.usage.get(id);
+    this.usage.set(id, { period, count: entry && entry.period === period ? entry.count + 1 : 1 });
+
+    this.prune(now);
+    return true;
+  }
+
+  /**
+   * Mark a key's quota as used up for its current window, used when QQ reports it exhausted before our count does
+   */
+  exhaust(key: QuotaKey, now: Date = new Date()): void {
+    while (this.tryConsume(key, now)) {
+      // Consume whatever is left
+    }
+  }
+
+  /**
+   * Forget usage from windows that have ended
+   */
+  private prune(now: Date): void {
+    for (const [id, entry] of this.usage) {
+      const scope = id.slice(0, id.indexOf(':')) as QuotaScope;
+      if (entry.period !== periodOf(ACTIVE_QUOTA[scope].window, now)) {
+        this.usage.delete(id);
+      }
+    }
+  }
+}
+
+function quotaKeyString(key: QuotaKey): string {
+  return `${key.scope}:${key.id}`;
+}
+
+function periodOf(window: QuotaWindow, date: Date): string {
+  const month = `${date.getFullYear()}-${date.getMonth() + 1}`;
+  return window === 'month' ? month : `${month}-${date.getDate()}`;
+}
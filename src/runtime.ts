@@ -9,11 +9,27 @@ import {
   WSPayload,
   HelloPayload,
   ReadyPayload,
+  ResumePayload,
   MessagePayload,
+  GroupMessagePayload,
+  C2CMessagePayload,
+  ReactionPayload,
+  ForumEvent,
+  ForumThreadPayload,
+  ForumPostPayload,
+  ForumReplyPayload,
+  InteractionPayload,
+  MessageAuditPayload,
+  DirectoryEvent,
+  Guild,
+  Channel,
+  QQInboundMessage,
+  MessageMode,
   EventType,
   Intents,
 } from './types.js';
 import { QQApiClient } from './api/client.js';
+import { describeIntents, describePrivilegedIntents } from './intents.js';
 
 // Plugin runtime storage
 let pluginRuntime: PluginRuntime | null = null;
@@ -33,14 +49,24 @@ export interface RuntimeConfig {
   appId: string;
   botToken: string;
   apiClient: QQApiClient;
-  onMessage: (message: MessagePayload, isDirect: boolean) => void;
+  intents: number;
+  messageMode: MessageMode;
+  onMessage: (inbound: QQInboundMessage) => void;
+  onReaction?: (reaction: ReactionPayload, added: boolean) => void;
+  onForumEvent?: (event: ForumEvent) => void;
+  onInteraction?: (interaction: InteractionPayload) => void;
+  onMessageAudit?: (audit: MessageAuditPayload, passed: boolean) => void;
+  onDirectoryEvent?: (event: DirectoryEvent) => void;
   onReady: (sessionId: string, botUser: { id: string; username: string }) => void;
+  onResumed?: (sessionId: string) => void;
+  onHeartbeat?: (latencyMs: number) => void;
   onError: (error: Error) => void;
+  // Shard this connection serves as [shard_id, num_shards], defaults to a single shard
+  shard?: [number, number];
+  // Waits for an identify slot when several shards share the session start concurrency
+  acquireIdentifySlot?: (shardId: number) => Promise<void>;
 }
 
-// Cache for access token used in WebSocket auth
-let cachedAccessToken: string | null = null;
-
 // Fatal error codes that should stop reconnection attempts
 const FATAL_CLOSE_CODES = [
   4004, // Authentication failed
@@ -50,12 +76,26 @@ const FATAL_CLOSE_CODES = [
   4013, // Invalid intents
   4014, // Disallowed intents
   4903, // Session creation failed (quota exhausted or other)
+  4914, // Bot is delisted (sandbox only)
+  4915, // Bot is banned
+];
+
+// Number of consecutive unacknowledged heartbeats before the connection is considered dead
+const MAX_MISSED_HEARTBEAT_ACKS = 2;
+
+// Close codes after which the session cannot be resumed and a fresh Identify is needed
+const SESSION_INVALIDATING_CLOSE_CODES = [
+  4006, // Invalid session id
+  4007, // Invalid seq on resume
 ];
 
 export class QQChannelRuntime {
   private config: RuntimeConfig;
   private ws: WebSocket | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private heartbeatSentAt: number | null = null;
+  private missedHeartbeatAcks = 0;
+  private heartbeatLatency: number | null = null;
   private lastSequence: number | null = null;
   private sessionId: string | null = null;
   private reconnectAttempts = 0;
@@ -64,6 +104,11 @@ export class QQChannelRuntime {
   private isClosing = false;
   private isFatalError = false;
   private lastCloseCode: number | null = null;
+  // Pending reconnect, at most one at a time so a recovered connection is never torn down by a stale timer
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  // Access token for Identify and Resume, kept current by the client's token manager
+  private accessToken: string | null = null;
+  private unsubscribeToken: (() => void) | null = null;
 
   constructor(config: RuntimeConfig) {
     this.config = config;
@@ -73,21 +118,29 @@ export class QQChannelRuntime {
    * Start the WebSocket connection
    */
   async start(): Promise<void> {
+    this.clearReconnectTimer();
+
     // Reset fatal error flag on manual start
     if (this.reconnectAttempts === 0) {
       this.isFatalError = false;
     }
 
     try {
+      // Follow token rotations so Identify and Resume always use the current token
+      this.unsubscribeToken ??= this.config.apiClient.onTokenRotated((token) => {
+        this.accessToken = token;
+      });
+
       // Get access token first (this will be used for WebSocket auth)
-      cachedAccessToken = await this.config.apiClient.getAccessToken();
+      this.accessToken = await this.config.apiClient.getAccessToken();
 
       // Get the gateway URL and check session limit
       const gateway = await this.config.apiClient.getGateway();
       const wsUrl = gateway.url;
 
       // Check session_start_limit if available
-      if (gateway.session_start_limit) {
+      // Resuming does not consume a session start, so the quota only matters for Identify
+      if (gateway.session_start_limit && !this.canResume()) {
         const { remaining, total, reset_after } = gateway.session_start_limit;
         console.log(`[QQ-Channel] Session quota: ${remaining}/${total} remaining`);
 
@@ -119,14 +172,16 @@ export class QQChannelRuntime {
   async stop(): Promise<void> {
     this.isClosing = true;
     this.stopHeartbeat();
+    this.clearReconnectTimer();
+    this.unsubscribeToken?.();
+    this.unsubscribeToken = null;
 
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
 
-    this.sessionId = null;
-    this.lastSequence = null;
+    this.clearSession();
     this.reconnectAttempts = 0;
   }
 
@@ -134,13 +189,14 @@ export class QQChannelRuntime {
    * Setup WebSocket event handlers
    */
   private setupWebSocketHandlers(): void {
-    if (!this.ws) return;
+    const ws = this.ws;
+    if (!ws) return;
 
-    this.ws.on('open', () => {
+    ws.on('open', () => {
       console.log('[QQ-Channel] WebSocket connected');
     });
 
-    this.ws.on('message', (data: WebSocket.Data) => {
+    ws.on('message', (data: WebSocket.Data) => {
       try {
         const payload: WSPayload = JSON.parse(data.toString());
         this.handlePayload(payload);
@@ -149,8 +205,12 @@ export class QQChannelRuntime {
       }
     });
 
-    this.ws.on('close', (code, reason) => {
+    ws.on('close', (code, reason) => {
       console.log(`[QQ-Channel] WebSocket closed: ${code} ${reason}`);
+
+      // A socket we already replaced during reconnect must not trigger another one
+      if (ws !== this.ws) return;
+
       this.stopHeartbeat();
       this.lastCloseCode = code;
 
@@ -158,16 +218,25 @@ export class QQChannelRuntime {
       if (FATAL_CLOSE_CODES.includes(code)) {
         console.error(`[QQ-Channel] Fatal error (code ${code}), stopping reconnection attempts`);
         this.isFatalError = true;
-        this.config.onError(new Error(`Fatal WebSocket error: ${code} ${reason}`));
+        this.config.onError(
+          code === 4014
+            ? this.disallowedIntentsError()
+            : new Error(`Fatal WebSocket error: ${code} ${reason}`)
+        );
         return;
       }
 
+      if (SESSION_INVALIDATING_CLOSE_CODES.includes(code)) {
+        console.log(`[QQ-Channel] Session invalidated (code ${code}), will re-identify`);
+        this.clearSession();
+      }
+
       if (!this.isClosing && !this.isFatalError) {
         this.scheduleReconnect();
       }
     });
 
-    this.ws.on('error', (error) => {
+    ws.on('error', (error) => {
       console.error('[QQ-Channel] WebSocket error:', error);
       this.config.onError(error);
     });
@@ -188,11 +257,11 @@ export class QQChannelRuntime {
         break;
 
       case OpCode.Dispatch:
-        this.handleDispatch(payload.t as EventType, payload.d);
+        this.handleDispatch(payload.t as EventType, payload.d, payload.id);
         break;
 
       case OpCode.HeartbeatAck:
-        // Heartbeat acknowledged
+        this.handleHeartbeatAck();
         break;
 
       case OpCode.Reconnect:
@@ -202,13 +271,14 @@ export class QQChannelRuntime {
 
       case OpCode.InvalidSession:
         console.log('[QQ-Channel] Invalid session received');
-        this.sessionId = null;
+        // The session is gone, so the next connection must Identify instead of Resume
+        this.clearSession();
         // Use scheduleReconnect instead of immediate reconnect to respect rate limits
-        // Add a small delay before reconnecting for invalid session
-        setTimeout(() => {
-          if (!this.isClosing && !this.isFatalError) {
-            this.scheduleReconnect();
-          }
+        // Add a small delay before reconnecting for invalid session, a close or reconnect in between replaces it
+        this.clearReconnectTimer();
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          this.scheduleReconnect();
         }, 1000);
         break;
 
@@ -218,7 +288,7 @@ export class QQChannelRuntime {
   }
 
   /**
-   * Handle Hello payload and send Identify
+   * Handle Hello payload and send Resume or Identify
    */
   private handleHello(data: HelloPayload): void {
     console.log(`[QQ-Channel] Received Hello, heartbeat interval: ${data.heartbeat_interval}ms`);
@@ -226,32 +296,84 @@ export class QQChannelRuntime {
     // Start heartbeat
     this.startHeartbeat(data.heartbeat_interval);
 
-    // Send Identify
-    this.sendIdentify();
+    // Resume the previous session if we have one, otherwise start a new one
+    if (this.canResume()) {
+      this.sendResume();
+    } else {
+      this.sendIdentify().catch((error) => {
+        console.error('[QQ-Channel] Failed to send Identify:', error);
+        this.config.onError(error as Error);
+      });
+    }
+  }
+
+  /**
+   * Get the shard this connection serves
+   */
+  getShard(): [number, number] {
+    return this.config.shard ?? [0, 1];
+  }
+
+  /**
+   * Whether a saved session is available to resume
+   */
+  private canResume(): boolean {
+    return this.sessionId !== null && this.lastSequence !== null;
+  }
+
+  /**
+   * Forget the saved session so the next connection sends Identify
+   */
+  private clearSession(): void {
+    this.sessionId = null;
+    this.lastSequence = null;
+  }
+
+  /**
+   * Send Resume payload with the saved session id and sequence
+   */
+  private sendResume(): void {
+    const resumePayload: WSPayload<ResumePayload> = {
+      op: OpCode.Resume,
+      d: {
+        token: `QQBot ${this.accessToken}`,
+        session_id: this.sessionId!,
+        seq: this.lastSequence!,
+      },
+    };
+
+    console.log(`[QQ-Channel] Sending Resume for session ${this.sessionId} at seq ${this.lastSequence}`);
+
+    this.send(resumePayload);
   }
 
   /**
-   * Send Identify payload
+   * Send Identify payload once an identify slot is available
    */
-  private sendIdentify(): void {
-    // Use minimal intents for sandbox testing
-    // PUBLIC_GUILD_MESSAGES requires special permission
-    const intents =
-      Intents.GUILDS |
-      Intents.GUILD_MEMBERS |
-      Intents.GUILD_MESSAGES |
-      Intents.DIRECT_MESSAGE;
+  private async sendIdentify(): Promise<void> {
+    const ws = this.ws;
+    const shard = this.getShard();
+
+    if (this.config.acquireIdentifySlot) {
+      await this.config.acquireIdentifySlot(shard[0]);
+
+      // The connection was replaced while waiting for the slot
+      if (ws !== this.ws) return;
+    }
+
+    // Intents come from the account's message mode or explicit intents list
+    const intents = this.config.intents;
 
     // Use Access Token authentication (new method)
     // Old method "Bot {appId}.{botToken}" is deprecated
-    const token = `QQBot ${cachedAccessToken}`;
+    const token = `QQBot ${this.accessToken}`;
 
     const identifyPayload: WSPayload = {
       op: OpCode.Identify,
       d: {
         token,
         intents,
-        shard: [0, 1],
+        shard,
         properties: {
           $os: 'linux',
           $browser: 'clawdbot-qq-channel',
@@ -262,8 +384,9 @@ export class QQChannelRuntime {
 
     console.log('[QQ-Channel] Sending Identify with:');
     console.log('[QQ-Channel]   Token type: QQBot (Access Token)');
-    console.log('[QQ-Channel]   Access Token (first 10 chars):', cachedAccessToken?.substring(0, 10) + '...');
-    console.log('[QQ-Channel]   Intents:', intents);
+    console.log('[QQ-Channel]   Access Token (first 10 chars):', this.accessToken?.substring(0, 10) + '...');
+    console.log('[QQ-Channel]   Intents:', intents, describeIntents(intents).join('|'));
+    console.log('[QQ-Channel]   Shard:', `${shard[0]}/${shard[1]}`);
 
     this.send(identifyPayload);
     console.log('[QQ-Channel] Sent Identify');
@@ -276,11 +399,23 @@ export class QQChannelRuntime {
     this.stopHeartbeat();
 
     this.heartbeatInterval = setInterval(() => {
+      // The previous heartbeat is still unacknowledged
+      if (this.heartbeatSentAt !== null) {
+        this.missedHeartbeatAcks++;
+        console.warn(`[QQ-Channel] Heartbeat ACK missed (${this.missedHeartbeatAcks}/${MAX_MISSED_HEARTBEAT_ACKS})`);
+
+        if (this.missedHeartbeatAcks >= MAX_MISSED_HEARTBEAT_ACKS) {
+          this.handleZombieConnection();
+          return;
+        }
+      }
+
       const heartbeatPayload: WSPayload = {
         op: OpCode.Heartbeat,
         d: this.lastSequence,
       };
 
+      this.heartbeatSentAt = Date.now();
       this.send(heartbeatPayload);
     }, interval);
   }
@@ -293,27 +428,129 @@ export class QQChannelRuntime {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
+
+    this.heartbeatSentAt = null;
+    this.missedHeartbeatAcks = 0;
+  }
+
+  /**
+   * Handle HeartbeatAck and record the round-trip latency
+   */
+  private handleHeartbeatAck(): void {
+    if (this.heartbeatSentAt === null) return;
+
+    this.heartbeatLatency = Date.now() - this.heartbeatSentAt;
+    this.heartbeatSentAt = null;
+    this.missedHeartbeatAcks = 0;
+
+    this.config.onHeartbeat?.(this.heartbeatLatency);
+  }
+
+  /**
+   * Drop a connection that stopped acknowledging heartbeats and resume on a new one
+   * A half-open TCP connection never fires 'close', so the socket is terminated instead of closed
+   */
+  private handleZombieConnection(): void {
+    console.error('[QQ-Channel] No heartbeat ACK received, connection appears dead, reconnecting');
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.terminate();
+    }
+
+    this.reconnect();
+  }
+
+  /**
+   * Get the round-trip latency of the last acknowledged heartbeat in milliseconds
+   */
+  getHeartbeatLatency(): number | null {
+    return this.heartbeatLatency;
   }
 
   /**
    * Handle dispatch events
    */
-  private handleDispatch(eventType: EventType, data: unknown): void {
+  private handleDispatch(eventType: EventType, data: unknown, eventId?: string): void {
     switch (eventType) {
       case 'READY':
         this.handleReady(data as ReadyPayload);
         break;
 
       case 'AT_MESSAGE_CREATE':
-        this.config.onMessage(data as MessagePayload, false);
+        // Private bots subscribed to GUILD_MESSAGES already get @ messages as MESSAGE_CREATE
+        if (this.receivesAllGuildMessages()) break;
+        this.config.onMessage({ scene: 'channel', message: data as MessagePayload, eventId });
+        break;
+
+      case 'MESSAGE_CREATE':
+        if (!this.receivesAllGuildMessages()) break;
+        this.config.onMessage({ scene: 'channel', message: data as MessagePayload, eventId });
         break;
 
       case 'DIRECT_MESSAGE_CREATE':
-        this.config.onMessage(data as MessagePayload, true);
+        this.config.onMessage({ scene: 'direct', message: data as MessagePayload, eventId });
+        break;
+
+      case 'GROUP_AT_MESSAGE_CREATE':
+        this.config.onMessage({ scene: 'group', message: data as GroupMessagePayload, eventId });
+        break;
+
+      case 'C2C_MESSAGE_CREATE':
+        this.config.onMessage({ scene: 'c2c', message: data as C2CMessagePayload, eventId });
+        break;
+
+      case 'MESSAGE_REACTION_ADD':
+        this.config.onReaction?.(data as ReactionPayload, true);
+        break;
+
+      case 'MESSAGE_REACTION_REMOVE':
+        this.config.onReaction?.(data as ReactionPayload, false);
+        break;
+
+      case 'FORUM_THREAD_CREATE':
+        this.config.onForumEvent?.({ kind: 'thread', payload: data as ForumThreadPayload });
+        break;
+
+      case 'FORUM_POST_CREATE':
+        this.config.onForumEvent?.({ kind: 'post', payload: data as ForumPostPayload });
+        break;
+
+      case 'FORUM_REPLY_CREATE':
+        this.config.onForumEvent?.({ kind: 'reply', payload: data as ForumReplyPayload });
+        break;
+
+      case 'INTERACTION_CREATE':
+        this.config.onInteraction?.(data as InteractionPayload);
+        break;
+
+      case 'GUILD_CREATE':
+      case 'GUILD_UPDATE':
+      case 'GUILD_DELETE':
+        this.config.onDirectoryEvent?.({ kind: 'guild', action: directoryAction(eventType), guild: data as Guild });
+        break;
+
+      case 'CHANNEL_CREATE':
+      case 'CHANNEL_UPDATE':
+      case 'CHANNEL_DELETE':
+        this.config.onDirectoryEvent?.({ kind: 'channel', action: directoryAction(eventType), channel: data as Channel });
+        break;
+
+      case 'MESSAGE_AUDIT_PASS':
+        this.config.onMessageAudit?.(data as MessageAuditPayload, true);
         break;
 
+      case 'MESSAGE_AUDIT_REJECT': {
+        const audit = data as MessageAuditPayload;
+        this.config.onMessageAudit?.(audit, false);
+        this.config.onError(new Error(`Message ${audit.audit_id} in channel ${audit.channel_id} rejected by audit`));
+        break;
+      }
+
       case 'RESUMED':
-        console.log('[QQ-Channel] Session resumed');
+        this.handleResumed();
         break;
 
       default:
@@ -322,6 +559,26 @@ export class QQChannelRuntime {
     }
   }
 
+  /**
+   * Whether guild messages are delivered through MESSAGE_CREATE (private mode)
+   */
+  private receivesAllGuildMessages(): boolean {
+    return this.config.messageMode === 'private' && (this.config.intents & Intents.GUILD_MESSAGES) !== 0;
+  }
+
+  /**
+   * Build the error for close code 4014, naming the intents QQ may have refused
+   */
+  private disallowedIntentsError(): Error {
+    const privileged = describePrivilegedIntents(this.config.intents);
+    const names = privileged.length > 0 ? privileged : describeIntents(this.config.intents);
+
+    return new Error(
+      `Disallowed intents (4014): bot is not permitted to subscribe to ${names.join(', ')}. ` +
+      `Request the permission on the QQ open platform or change messageMode/intents in the account config`
+    );
+  }
+
   /**
    * Handle Ready event
    */
@@ -329,12 +586,25 @@ export class QQChannelRuntime {
     this.sessionId = data.session_id;
     this.reconnectAttempts = 0;
 
-    console.log(`[QQ-Channel] Ready! Session ID: ${this.sessionId}`);
+    console.log(`[QQ-Channel] Ready! Session ID: ${this.sessionId} (shard ${data.shard?.[0] ?? 0}/${data.shard?.[1] ?? 1})`);
     console.log(`[QQ-Channel] Bot user: ${data.user.username} (${data.user.id})`);
 
     this.config.onReady(this.sessionId, data.user);
   }
 
+  /**
+   * Handle Resumed event, the missed events have been replayed by now
+   */
+  private handleResumed(): void {
+    this.reconnectAttempts = 0;
+
+    console.log(`[QQ-Channel] Session resumed: ${this.sessionId}`);
+
+    if (this.sessionId) {
+      this.config.onResumed?.(this.sessionId);
+    }
+  }
+
   /**
    * Send a payload to the WebSocket
    */
@@ -364,15 +634,24 @@ export class QQChannelRuntime {
 
     console.log(`[QQ-Channel] Reconnecting in ${cappedDelay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
 
-    setTimeout(() => {
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       if (!this.isClosing && !this.isFatalError) {
         this.reconnect();
       }
     }, cappedDelay);
   }
 
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   /**
-   * Reconnect to WebSocket
+   * Reconnect to WebSocket, resuming the saved session when possible
    */
   private async reconnect(): Promise<void> {
     this.stopHeartbeat();
@@ -382,14 +661,16 @@ export class QQChannelRuntime {
       this.ws = null;
     }
 
-    // Force refresh access token on reconnect
-    try {
-      console.log('[QQ-Channel] Refreshing access token before reconnect...');
-      cachedAccessToken = await this.config.apiClient.getAccessToken(true);
-    } catch (error) {
-      console.error('[QQ-Channel] Failed to refresh access token:', error);
-    }
-
+    // start() fetches the token, the token manager refreshes it when it is about to expire
     this.start();
   }
 }
+
+/**
+ * Action of a GUILD_* or CHANNEL_* event
+ */
+function directoryAction(eventType: EventType): DirectoryEvent['action'] {
+  if (eventType.endsWith('_CREATE')) return 'create';
+  if (eventType.endsWith('_DELETE')) return 'delete';
+  return 'update';
+}
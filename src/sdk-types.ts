@@ -7,6 +7,7 @@ export type MoltbotConfig = any;
 
 export interface ReplyPayload {
   text: string;
+  channelData?: Record<string, unknown>;
   metadata?: {
     model?: string;
   };
@@ -47,6 +48,8 @@ export interface InboundContext {
   WasMentioned?: boolean;
   MessageSid: string;
   ReplyToId?: string;
+  ReplyToBody?: string;
+  ReplyToSender?: string;
   MessageThreadId?: string;
   Timestamp?: number;
   MediaPath?: string;
@@ -112,6 +115,9 @@ export interface PluginRuntime {
       }) => AgentRoute;
     };
   };
+  system: {
+    enqueueSystemEvent: (text: string, opts: { sessionKey: string; contextKey?: string }) => void;
+  };
   logging: {
     shouldLogVerbose: () => boolean;
     getChildLogger: (bindings?: Record<string, unknown>, opts?: { level?: string }) => RuntimeLogger;
@@ -182,6 +188,19 @@ export interface ChannelPlugin<TAccount> {
       threadId?: string;
       deps?: any;
     }) => Promise<{ messageId: string; timestamp: Date }>;
+    react?: (params: {
+      to: string;
+      messageId: string;
+      emoji: string;
+      accountId: string;
+      remove?: boolean;
+    }) => Promise<void>;
+    recall?: (params: {
+      to?: string;
+      messageId: string;
+      accountId: string;
+      hideTip?: boolean;
+    }) => Promise<void>;
   };
   status?: {
     defaultRuntime: {
@@ -0,0 +1,43 @@
+/**
+ * QQ Channel sent message log
+ * Remembers where the bot's messages were sent so they can be recalled by id
+ */
+
+import type { MessageScene } from './types.js';
+
+// Oldest messages are forgotten once this many are logged
+const MAX_SENT_MESSAGES = 1000;
+
+// Where a sent message lives, in the form the recall endpoints take
+export interface SentMessage {
+  scene: MessageScene;
+  targetId: string;
+  sentAt: number;
+}
+
+export class SentMessageLog {
+  private messages: Map<string, SentMessage> = new Map();
+
+  /**
+   * Log a sent message, the id may be an audit id while the message is held for review
+   */
+  record(messageId: string, scene: MessageScene, targetId: string, now: number = Date.now()): void {
+    if (!messageId) return;
+
+    this.messages.delete(messageId);
+    this.messages.set(messageId, { scene, targetId, sentAt: now });
+
+    if (this.messages.size > MAX_SENT_MESSAGES) {
+      const oldest = this.messages.keys().next().value;
+      if (oldest !== undefined) this.messages.delete(oldest);
+    }
+  }
+
+  get(messageId: string): SentMessage | undefined {
+    return this.messages.get(messageId);
+  }
+
+  forget(messageId: string): void {
+    this.messages.delete(messageId);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * QQ Channel Gateway Shard Manager
+ */
+
+import { QQChannelRuntime, RuntimeConfig } from './runtime.js';
+
+// Each identify bucket may start one session per interval
+const IDENTIFY_INTERVAL_MS = 5000;
+
+export type ShardManagerConfig = Omit<RuntimeConfig, 'shard' | 'acquireIdentifySlot'>;
+
+export class QQShardManager {
+  private config: ShardManagerConfig;
+  private shards: QQChannelRuntime[] = [];
+  private maxConcurrency = 1;
+  // Next time each identify bucket may send Identify
+  private identifyBuckets: Map<number, number> = new Map();
+
+  constructor(config: ShardManagerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Open one gateway connection per shard recommended by /gateway/bot
+   * All shards share the same callbacks, so dispatch events from every shard reach onMessage
+   */
+  async start(): Promise<void> {
+    let shardCount = 1;
+
+    try {
+      const gateway = await this.config.apiClient.getGateway();
+      shardCount = Math.max(1, gateway.shards || 1);
+      this.maxConcurrency = Math.max(1, gateway.session_start_limit?.max_concurrency || 1);
+
+      const remaining = gateway.session_start_limit?.remaining;
+      if (remaining !== undefined && remaining > 0 && remaining < shardCount) {
+        console.warn(`[QQ-Channel] Only ${remaining} session starts remaining for ${shardCount} shards`);
+      }
+    } catch (error) {
+      console.error('[QQ-Channel] Failed to get shard info, starting a single shard:', error);
+    }
+
+    console.log(`[QQ-Channel] Starting ${shardCount} shard(s), max concurrency ${this.maxConcurrency}`);
+
+    this.identifyBuckets.clear();
+    this.shards = [];
+    for (let shardId = 0; shardId < shardCount; shardId++) {
+      this.shards.push(
+        new QQChannelRuntime({
+          ...this.config,
+          shard: [shardId, shardCount],
+          acquireIdentifySlot: (id) => this.acquireIdentifySlot(id),
+        })
+      );
+    }
+
+    await Promise.all(this.shards.map((shard) => shard.start()));
+  }
+
+  /**
+   * Stop every shard connection
+   */
+  async stop(): Promise<void> {
+    await Promise.all(this.shards.map((shard) => shard.stop()));
+    this.shards = [];
+  }
+
+  /**
+   * Get the worst heartbeat latency across all shards in milliseconds
+   */
+  getHeartbeatLatency(): number | null {
+    const latencies = this.shards
+      .map((shard) => shard.getHeartbeatLatency())
+      .filter((latency): latency is number => latency !== null);
+
+    return latencies.length > 0 ? Math.max(...latencies) : null;
+  }
+
+  /**
+   * Get the number of shards currently managed
+   */
+  getShardCount(): number {
+    return this.shards.length;
+  }
+
+  /**
+   * Wait for an identify slot
+   * Shards are grouped into max_concurrency buckets by shard_id, each bucket identifies one shard at a time
+   */
+  private async acquireIdentifySlot(shardId: number): Promise<void> {
+    const bucket = shardId % this.maxConcurrency;
+    const now = Date.now();
+    const slot = Math.max(now, this.identifyBuckets.get(bucket) ?? 0);
+
+    // Reserve the slot before waiting so concurrent shards queue behind each other
+    this.identifyBuckets.set(bucket, slot + IDENTIFY_INTERVAL_MS);
+
+    if (slot > now) {
+      console.log(`[QQ-Channel] Shard ${shardId} waiting ${slot - now}ms for identify slot`);
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
@@ -5,7 +5,8 @@
 // OAuth token response
 export interface TokenResponse {
   access_token: string;
-  expires_in: number;
+  // Seconds, sent as a string by the token endpoint
+  expires_in: number | string;
   token_type: string;
 }
 
@@ -27,6 +28,7 @@ export interface WSPayload<T = unknown> {
   d: T;
   s?: number;
   t?: string;
+  id?: string;
 }
 
 // WebSocket opcodes
@@ -58,6 +60,13 @@ export interface IdentifyPayload {
   };
 }
 
+// Resume payload
+export interface ResumePayload {
+  token: string;
+  session_id: string;
+  seq: number;
+}
+
 // Ready event payload
 export interface ReadyPayload {
   version: number;
@@ -89,33 +98,375 @@ export interface GuildMember {
   nick?: string;
 }
 
+// Message attachment (images, files, voice)
+export interface MessageAttachment {
+  id?: string;
+  url: string;
+  content_type?: string;
+  filename?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+}
+
+// Reference to a quoted message
+export interface MessageReference {
+  message_id: string;
+  ignore_get_message_error?: boolean;
+}
+
+// Quoted message carried inline by group and C2C events, there is no API to fetch it
+export interface QuotedMessageElement {
+  msg_idx?: string;
+  content?: string;
+  attachments?: MessageAttachment[];
+}
+
 // Message event payload (AT_MESSAGE_CREATE, DIRECT_MESSAGE_CREATE)
 export interface MessagePayload {
   id: string;
   channel_id: string;
   guild_id: string;
+  // Guild the DM was started from, only set on DIRECT_MESSAGE_CREATE
+  src_guild_id?: string;
   content: string;
   timestamp: string;
   author: MessageAuthor;
   member?: GuildMember;
+  mentions?: MessageAuthor[];
+  attachments?: MessageAttachment[];
+  message_reference?: MessageReference;
   seq?: number;
   seq_in_channel?: string;
 }
 
+// Group message author (GROUP_AT_MESSAGE_CREATE)
+export interface GroupMessageAuthor {
+  id: string;
+  member_openid: string;
+  union_openid?: string;
+}
+
+// Group message event payload (GROUP_AT_MESSAGE_CREATE)
+export interface GroupMessagePayload {
+  id: string;
+  group_id?: string;
+  group_openid: string;
+  content: string;
+  timestamp: string;
+  author: GroupMessageAuthor;
+  attachments?: MessageAttachment[];
+  message_reference?: MessageReference;
+  // 103 for replies that quote another message, whose content is in msg_elements
+  message_type?: number;
+  msg_elements?: QuotedMessageElement[];
+}
+
+// C2C message author (C2C_MESSAGE_CREATE)
+export interface C2CMessageAuthor {
+  id: string;
+  user_openid: string;
+  union_openid?: string;
+}
+
+// C2C (one-to-one) message event payload (C2C_MESSAGE_CREATE)
+export interface C2CMessagePayload {
+  id: string;
+  content: string;
+  timestamp: string;
+  author: C2CMessageAuthor;
+  attachments?: MessageAttachment[];
+  message_reference?: MessageReference;
+  // 103 for replies that quote another message, whose content is in msg_elements
+  message_type?: number;
+  msg_elements?: QuotedMessageElement[];
+}
+
+// Inbound message tagged with the scene it arrived from
+// eventId is the dispatch id, usable as event_id for passive replies
+// interactionId is set for button clicks, which can only be answered through event_id
+export type QQInboundMessage = (
+  | { scene: 'channel'; message: MessagePayload }
+  | { scene: 'direct'; message: MessagePayload }
+  | { scene: 'group'; message: GroupMessagePayload }
+  | { scene: 'c2c'; message: C2CMessagePayload }
+) & { eventId?: string; interactionId?: string };
+
+// Scene an inbound message arrived from
+export type MessageScene = QQInboundMessage['scene'];
+
+// Markdown message body, either native content or a registered template
+export interface MessageMarkdown {
+  content?: string;
+  custom_template_id?: string;
+  params?: Array<{
+    key: string;
+    values: string[];
+  }>;
+}
+
+// Guild (频道) the bot has joined
+export interface Guild {
+  id: string;
+  name: string;
+  icon?: string;
+  owner_id: string;
+  owner?: boolean;
+  member_count?: number;
+  max_members?: number;
+  description?: string;
+  joined_at?: string;
+}
+
+// Channel types
+export enum ChannelType {
+  Text = 0,
+  Voice = 2,
+  Category = 4,
+  Live = 10005,
+  Application = 10006,
+  Forum = 10007,
+}
+
+// Channel (子频道) in a guild
+export interface Channel {
+  id: string;
+  guild_id: string;
+  name: string;
+  type: ChannelType;
+  sub_type?: number;
+  position?: number;
+  parent_id?: string;
+  owner_id?: string;
+  private_type?: number;
+}
+
+// Guild or channel change (GUILD_CREATE/UPDATE/DELETE, CHANNEL_CREATE/UPDATE/DELETE)
+export type DirectoryEvent =
+  | { kind: 'guild'; action: 'create' | 'update' | 'delete'; guild: Guild & { op_user_id?: string } }
+  | { kind: 'channel'; action: 'create' | 'update' | 'delete'; channel: Channel & { op_user_id?: string } };
+
+// Emoji: type 1 is a QQ system emoji, type 2 a unicode emoji identified by its code point
+export interface Emoji {
+  id: string;
+  type: EmojiType;
+}
+
+export enum EmojiType {
+  System = 1,
+  Unicode = 2,
+}
+
+// Reaction target types
+export enum ReactionTargetType {
+  Message = 0,
+  Post = 1,
+  Comment = 2,
+  Reply = 3,
+}
+
+// Reaction event payload (MESSAGE_REACTION_ADD, MESSAGE_REACTION_REMOVE)
+export interface ReactionPayload {
+  user_id: string;
+  guild_id: string;
+  channel_id: string;
+  target: {
+    id: string;
+    type: ReactionTargetType;
+  };
+  emoji: Emoji;
+}
+
+// Users who reacted with an emoji
+export interface ReactionUsersResponse {
+  users: Array<{
+    id: string;
+    username: string;
+    avatar?: string;
+  }>;
+  cookie: string;
+  is_end: boolean;
+}
+
+// Forum rich text (thread, post and reply content is a JSON encoded RichText)
+export interface RichText {
+  paragraphs?: Array<{
+    elems?: RichTextElem[];
+  }>;
+}
+
+// Rich text element: 1 text, 2 image, 3 video, 4 url
+export interface RichTextElem {
+  type: number;
+  text?: { text: string };
+  image?: { third_url?: string };
+  video?: { third_url?: string };
+  url?: { url: string; desc?: string };
+}
+
+// Forum thread event payload (FORUM_THREAD_CREATE, FORUM_THREAD_UPDATE, FORUM_THREAD_DELETE)
+export interface ForumThreadPayload {
+  guild_id: string;
+  channel_id: string;
+  author_id: string;
+  thread_info: {
+    thread_id: string;
+    title: string;
+    content: string;
+    date_time: string;
+  };
+}
+
+// Forum post event payload (FORUM_POST_CREATE, FORUM_POST_DELETE)
+export interface ForumPostPayload {
+  guild_id: string;
+  channel_id: string;
+  author_id: string;
+  post_info: {
+    thread_id: string;
+    post_id: string;
+    content: string;
+    date_time: string;
+  };
+}
+
+// Forum reply event payload (FORUM_REPLY_CREATE, FORUM_REPLY_DELETE)
+export interface ForumReplyPayload {
+  guild_id: string;
+  channel_id: string;
+  author_id: string;
+  reply_info: {
+    thread_id: string;
+    post_id: string;
+    reply_id: string;
+    content: string;
+    date_time: string;
+  };
+}
+
+// Forum event tagged with what was created
+export type ForumEvent =
+  | { kind: 'thread'; payload: ForumThreadPayload }
+  | { kind: 'post'; payload: ForumPostPayload }
+  | { kind: 'reply'; payload: ForumReplyPayload };
+
+// Thread content formats
+export enum ThreadFormat {
+  Text = 1,
+  Html = 2,
+  Markdown = 3,
+  Json = 4,
+}
+
+// Create thread request (PUT /channels/{channel_id}/threads)
+export interface CreateThreadRequest {
+  title: string;
+  content: string;
+  format: ThreadFormat;
+}
+
+// Create thread response, the thread is published asynchronously
+export interface CreateThreadResponse {
+  task_id: string;
+  create_time: string;
+}
+
+// Thread details (GET /channels/{channel_id}/threads/{thread_id})
+export interface ThreadDetail {
+  guild_id: string;
+  channel_id: string;
+  author_id: string;
+  thread_info: ForumThreadPayload['thread_info'];
+}
+
+// Message button: type 0 opens a URL, 1 sends a callback (INTERACTION_CREATE), 2 inputs a command
+export interface KeyboardButton {
+  id?: string;
+  render_data: {
+    label: string;
+    visited_label: string;
+    style: number;
+  };
+  action: {
+    type: number;
+    permission: {
+      type: number;
+    };
+    data: string;
+    unsupport_tips: string;
+    enter?: boolean;
+  };
+}
+
+// Message keyboard, either a registered template id or inline rows of buttons
+export interface MessageKeyboard {
+  id?: string;
+  content?: {
+    rows: Array<{
+      buttons: KeyboardButton[];
+    }>;
+  };
+}
+
+// Interaction chat types
+export enum InteractionChatType {
+  Guild = 0,
+  Group = 1,
+  C2C = 2,
+}
+
+// Interaction event payload (INTERACTION_CREATE), sent when a callback button is clicked
+export interface InteractionPayload {
+  id: string;
+  type: number;
+  chat_type: InteractionChatType;
+  timestamp: string;
+  guild_id?: string;
+  channel_id?: string;
+  user_openid?: string;
+  group_openid?: string;
+  group_member_openid?: string;
+  data: {
+    type: number;
+    resolved: {
+      button_data?: string;
+      button_id?: string;
+      user_id?: string;
+      message_id?: string;
+    };
+  };
+}
+
+// Interaction acknowledgement codes
+export enum InteractionResult {
+  Success = 0,
+  Failed = 1,
+  TooFrequent = 2,
+  Duplicate = 3,
+  NoPermission = 4,
+  AdminOnly = 5,
+}
+
 // Send message request
 export interface SendMessageRequest {
   content?: string;
   msg_id?: string;
+  event_id?: string;
   embed?: unknown;
   ark?: unknown;
   image?: string;
-  message_reference?: {
-    message_id: string;
-    ignore_get_message_error?: boolean;
+  markdown?: MessageMarkdown;
+  keyboard?: MessageKeyboard;
+  media?: {
+    file_info: string;
   };
+  msg_type?: number;
+  msg_seq?: number;
+  message_reference?: MessageReference;
 }
 
 // Send message response
+// id is empty and audit_id set when the message is held for review
 export interface SendMessageResponse {
   id: string;
   channel_id: string;
@@ -123,6 +474,57 @@ export interface SendMessageResponse {
   content: string;
   timestamp: string;
   author: MessageAuthor;
+  audit_id?: string;
+}
+
+// Message audit result (MESSAGE_AUDIT_PASS / MESSAGE_AUDIT_REJECT), message_id is only set once passed
+export interface MessageAuditPayload {
+  audit_id: string;
+  message_id?: string;
+  guild_id: string;
+  channel_id: string;
+  audit_time: string;
+  create_time: string;
+  seq_in_channel?: string;
+}
+
+// Send message response for group and C2C messages (/v2 endpoints)
+export interface SendV2MessageResponse {
+  id: string;
+  timestamp: string | number;
+}
+
+// Message types for group and C2C messages
+export enum MessageType {
+  Text = 0,
+  Markdown = 2,
+  Ark = 3,
+  Embed = 4,
+  Media = 7,
+}
+
+// Rich media file types for group and C2C uploads
+export enum FileType {
+  Image = 1,
+  Video = 2,
+  Voice = 3,
+  File = 4,
+}
+
+// Rich media upload request (/v2/groups/{group_openid}/files, /v2/users/{openid}/files)
+export interface UploadMediaRequest {
+  file_type: FileType;
+  url?: string;
+  file_data?: string;
+  srv_send_msg: boolean;
+}
+
+// Rich media upload response
+export interface UploadMediaResponse {
+  file_uuid: string;
+  file_info: string;
+  ttl: number;
+  id?: string;
 }
 
 // Intent flags for subscribing to events
@@ -132,6 +534,7 @@ export enum Intents {
   GUILD_MESSAGES = 1 << 9,
   GUILD_MESSAGE_REACTIONS = 1 << 10,
   DIRECT_MESSAGE = 1 << 12,
+  GROUP_AND_C2C_EVENT = 1 << 25,
   INTERACTION = 1 << 26,
   MESSAGE_AUDIT = 1 << 27,
   FORUMS_EVENT = 1 << 28,
@@ -155,8 +558,23 @@ export type EventType =
   | 'MESSAGE_CREATE'
   | 'AT_MESSAGE_CREATE'
   | 'DIRECT_MESSAGE_CREATE'
+  | 'GROUP_AT_MESSAGE_CREATE'
+  | 'C2C_MESSAGE_CREATE'
   | 'MESSAGE_REACTION_ADD'
-  | 'MESSAGE_REACTION_REMOVE';
+  | 'MESSAGE_REACTION_REMOVE'
+  | 'FORUM_THREAD_CREATE'
+  | 'FORUM_THREAD_UPDATE'
+  | 'FORUM_THREAD_DELETE'
+  | 'FORUM_POST_CREATE'
+  | 'FORUM_POST_DELETE'
+  | 'FORUM_REPLY_CREATE'
+  | 'FORUM_REPLY_DELETE'
+  | 'INTERACTION_CREATE'
+  | 'MESSAGE_AUDIT_PASS'
+  | 'MESSAGE_AUDIT_REJECT';
+
+// Message mode: public bots only see @ messages, private bots see every guild message
+export type MessageMode = 'public' | 'private';
 
 // Account configuration
 export interface QQChannelAccount {
@@ -164,6 +582,54 @@ export interface QQChannelAccount {
   appSecret: string;
   botToken: string;
   sandbox?: boolean;
+  messageMode?: MessageMode;
+  intents?: string[];
+  // Subscribe to QQ group and C2C messages, needs the group permission on the QQ open platform
+  groupAndC2C?: boolean;
+  messageFormat?: MessageFormat;
+  mediaMaxMb?: number;
+  markdownTemplate?: MarkdownTemplateConfig;
+  access?: AccessPolicyConfig;
+  // Override the API host and token endpoint, e.g. to point at a local simulator
+  apiBase?: string;
+  tokenEndpoint?: string;
+}
+
+// Reply format: plain text, native markdown or a registered markdown template
+export type MessageFormat = 'text' | 'markdown' | 'template';
+
+// Markdown template registered on the QQ open platform
+export interface MarkdownTemplateConfig {
+  id: string;
+  // Template key -> value pattern, may reference {text}, {title} and {body}
+  params?: Record<string, string>;
+}
+
+// Allow and deny lists of ids, deny wins and an allow list admits only its entries
+export interface IdFilter {
+  allow?: string[];
+  deny?: string[];
+}
+
+// Who may talk to the bot in direct messages
+export type DmPolicy = 'open' | 'allowlist' | 'disabled';
+
+// Access policy of an account
+export interface AccessPolicyConfig {
+  guilds?: IdFilter;
+  channels?: IdFilter;
+  users?: IdFilter;
+  // QQ role ids from member.roles
+  roles?: IdFilter;
+  dm?: {
+    policy?: DmPolicy;
+    allowFrom?: string[];
+  };
+  // Users and roles allowed to run control commands
+  admins?: {
+    users?: string[];
+    roles?: string[];
+  };
 }
 
 // DMS (Direct Message Session) response
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { checkAccess, isCommandAuthorized, needsMemberRoles } from '../src/access.js';
+import type { AccessSubject } from '../src/access.js';
+import type { AccessPolicyConfig } from '../src/types.js';
+
+const member: AccessSubject = { scene: 'channel', userId: 'u1', guildId: 'g1', channelId: 'c1', roles: ['1'] };
+
+test('allows everything without a policy', () => {
+  assert.deepEqual(checkAccess(undefined, member), { allowed: true });
+  assert.deepEqual(checkAccess(undefined, { scene: 'direct', userId: 'u1' }), { allowed: true });
+});
+
+test('applies user, guild, channel and role filters to guild messages', () => {
+  const policy: AccessPolicyConfig = {
+    users: { deny: ['u9'] },
+    guilds: { allow: ['g1'] },
+    channels: { deny: ['c2'] },
+    roles: { allow: ['1'] },
+  };
+
+  assert.equal(checkAccess(policy, member).allowed, true);
+  assert.equal(checkAccess(policy, { ...member, userId: 'u9' }).allowed, false);
+  assert.equal(checkAccess(policy, { ...member, guildId: 'g2' }).allowed, false);
+  assert.equal(checkAccess(policy, { ...member, channelId: 'c2' }).allowed, false);
+  assert.equal(checkAccess(policy, { ...member, roles: ['5'] }).allowed, false);
+});
+
+test('denies senders whose roles are unknown when a role filter is configured', () => {
+  const unknownRoles: AccessSubject = { ...member, roles: undefined };
+
+  const allow = checkAccess({ roles: { allow: ['1'] } }, unknownRoles);
+  assert.deepEqual(allow, { allowed: false, reason: 'roles of user u1 are unknown' });
+  assert.equal(checkAccess({ roles: { deny: ['5'] } }, unknownRoles).allowed, false);
+  assert.equal(checkAccess({ roles: { allow: [] } }, unknownRoles).allowed, true);
+  assert.equal(checkAccess({ users: { allow: ['u1'] } }, unknownRoles).allowed, true);
+});
+
+test('asks for a member lookup only for guild events without roles under a role filter', () => {
+  const policy: AccessPolicyConfig = { roles: { allow: ['1'] } };
+
+  assert.equal(needsMemberRoles(policy, { ...member, roles: undefined }), true);
+  assert.equal(needsMemberRoles(policy, member), false);
+  assert.equal(needsMemberRoles(undefined, { ...member, roles: undefined }), false);
+  assert.equal(needsMemberRoles(policy, { ...member, roles: undefined, guildId: undefined }), false);
+  assert.equal(needsMemberRoles(policy, { scene: 'direct', userId: 'u1', guildId: 'dms-1' }), false);
+});
+
+test('follows the DM policy for direct and C2C messages', () => {
+  assert.equal(checkAccess({ dm: { policy: 'disabled' } }, { scene: 'direct', userId: 'u1' }).allowed, false);
+  assert.equal(checkAccess({ dm: { policy: 'disabled' } }, { scene: 'c2c', userId: 'o1' }).allowed, false);
+
+  const allowlist: AccessPolicyConfig = { dm: { policy: 'allowlist', allowFrom: ['u1'] } };
+  assert.equal(checkAccess(allowlist, { scene: 'direct', userId: 'u1' }).allowed, true);
+  assert.equal(checkAccess(allowlist, { scene: 'direct', userId: 'u2' }).allowed, false);
+
+  // Role filters do not apply outside guild channels
+  assert.equal(checkAccess({ roles: { allow: ['1'] } }, { scene: 'direct', userId: 'u1' }).allowed, true);
+});
+
+test('only checks the user filter for group members', () => {
+  const policy: AccessPolicyConfig = { users: { deny: ['m9'] }, guilds: { allow: ['g1'] }, roles: { allow: ['1'] } };
+
+  assert.equal(checkAccess(policy, { scene: 'group', userId: 'm1' }).allowed, true);
+  assert.equal(checkAccess(policy, { scene: 'group', userId: 'm9' }).allowed, false);
+});
+
+test('authorizes commands for admin users and roles', () => {
+  assert.equal(isCommandAuthorized(undefined, { ...member, roles: ['4'] }), true);
+  assert.equal(isCommandAuthorized(undefined, member), false);
+  assert.equal(isCommandAuthorized(undefined, { ...member, roles: undefined }), false);
+
+  const policy: AccessPolicyConfig = { admins: { users: ['u7'], roles: ['10'] } };
+  assert.equal(isCommandAuthorized(policy, { scene: 'c2c', userId: 'u7' }), true);
+  assert.equal(isCommandAuthorized(policy, { ...member, roles: ['10'] }), true);
+  // Configured admin roles replace the default ones
+  assert.equal(isCommandAuthorized(policy, { ...member, roles: ['4'] }), false);
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { formatAddress, parseAddress } from '../src/address.js';
+import type { QQAddress } from '../src/address.js';
+
+test('parses every address kind and formats it back', () => {
+  const cases: Array<[string, QQAddress]> = [
+    ['qq-channel:channel:c1', { kind: 'channel', channelId: 'c1' }],
+    ['qq-channel:dm:u1', { kind: 'dm', userId: 'u1', sourceGuildId: undefined }],
+    ['qq-channel:dm:u1@g1', { kind: 'dm', userId: 'u1', sourceGuildId: 'g1' }],
+    ['qq-channel:group:G0PENID', { kind: 'group', groupOpenid: 'G0PENID' }],
+    ['qq-channel:c2c:U0PENID', { kind: 'c2c', openid: 'U0PENID' }],
+    ['qq-channel:thread:c1/t/1==', { kind: 'thread', channelId: 'c1', threadId: 't/1==' }],
+  ];
+
+  for (const [target, address] of cases) {
+    assert.deepEqual(parseAddress(target), address);
+    assert.equal(formatAddress(address), target);
+  }
+});
+
+test('accepts bare channel ids, channel names and a missing prefix', () => {
+  assert.deepEqual(parseAddress('12345'), { kind: 'channel', channelId: '12345' });
+  assert.deepEqual(parseAddress(' #general '), { kind: 'channel', channelId: '#general' });
+  assert.deepEqual(parseAddress('qq-channel:channel:#general'), { kind: 'channel', channelId: '#general' });
+  assert.deepEqual(parseAddress('group:G1'), { kind: 'group', groupOpenid: 'G1' });
+});
+
+test('rejects malformed addresses with the expected format', () => {
+  const cases: Array<[string, RegExp]> = [
+    ['qq-channel:dm:', /Invalid QQ dm address .*qq-channel:dm:<userId>\[@<guildId>\]/],
+    ['qq-channel:dm:u1@g1@g2', /Invalid QQ dm address/],
+    ['qq-channel:dm:u1@', /Invalid QQ dm address/],
+    ['qq-channel:group:a b', /Invalid QQ group address/],
+    ['qq-channel:thread:c1', /Invalid QQ thread address .*<channelId>\/<threadId>/],
+    ['qq-channel:thread:c1/', /Invalid QQ thread address/],
+    ['qq-channel:channel:', /Invalid QQ channel address/],
+    ['qq-channel:telegram:1', /Invalid QQ address .*expected one of/],
+    ['', /Invalid QQ address/],
+  ];
+
+  for (const [target, message] of cases) {
+    assert.throws(() => parseAddress(target), message, target);
+  }
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isQQApiError, parseApiError } from '../src/api/errors.js';
+
+const categoryOf = (status: number, body: unknown) =>
+  parseApiError(status, 'POST', '/channels/:id/messages', typeof body === 'string' ? body : JSON.stringify(body)).category;
+
+test('classifies known error codes', () => {
+  assert.equal(categoryOf(403, { code: 11298, message: '接口访问源IP不在白名单' }), 'ip-whitelist');
+  assert.equal(categoryOf(400, { code: 22009, message: 'msg limit exceed' }), 'rate-limit');
+  assert.equal(categoryOf(400, { code: 304003, message: 'url not allowed' }), 'content-rejected');
+  assert.equal(categoryOf(400, { code: 304027, message: 'message is expired' }), 'reply-window-expired');
+  assert.equal(categoryOf(400, { code: 40034024, message: '请求参数msg_id无效或越权' }), 'reply-window-expired');
+});
+
+test('only treats the reply window as expired by code', () => {
+  assert.equal(categoryOf(400, { code: 850012, message: 'file_info expired' }), 'unknown');
+  assert.equal(categoryOf(400, { message: '消息已过期' }), 'unknown');
+  // A token that expired is an authentication problem
+  assert.equal(categoryOf(401, { code: 11244, message: 'token not exist or expire' }), 'auth');
+});
+
+test('falls back to message fragments and then to the HTTP status', () => {
+  assert.equal(categoryOf(400, { code: 1, message: '主动消息发送次数已达上限 quota' }), 'quota');
+  assert.equal(categoryOf(400, { code: 1, message: 'content contains 违规 words' }), 'content-rejected');
+  assert.equal(categoryOf(401, '<html>Unauthorized</html>'), 'auth');
+  assert.equal(categoryOf(403, {}), 'permission');
+  assert.equal(categoryOf(429, {}), 'rate-limit');
+  assert.equal(categoryOf(502, 'Bad Gateway'), 'unknown');
+});
+
+test('keeps the code, trace id and audit id for callers', () => {
+  const error = parseApiError(
+    202,
+    'POST',
+    '/channels/:id/messages',
+    JSON.stringify({ code: 304023, message: 'push message is auditing', data: { message_audit: { audit_id: 'a1' } } }),
+    'trace-from-header'
+  );
+
+  assert.equal(error.code, 304023);
+  assert.equal(error.auditId, 'a1');
+  assert.equal(error.traceId, 'trace-from-header');
+  assert.match(error.message, /POST \/channels\/:id\/messages failed: 202 push message is auditing \(code 304023\)/);
+  assert.equal(isQQApiError(error), true);
+  assert.equal(isQQApiError(error, 'auth'), false);
+  assert.equal(isQQApiError(new Error('x')), false);
+});
@@ -0,0 +1,69 @@
+/**
+ * Minimal Clawdbot plugin runtime for tests
+ * The agent is replaced by a function from the inbound context to the reply text
+ */
+
+import type { InboundContext, MoltbotConfig, PluginRuntime } from '../src/sdk-types.js';
+
+export type FakeAgent = (ctx: InboundContext) => string | null;
+
+export interface FakeRuntime {
+  runtime: PluginRuntime;
+  // Contexts the agent was dispatched with, in order
+  contexts: InboundContext[];
+  systemEvents: Array<{ text: string; sessionKey: string }>;
+}
+
+export function createFakeRuntime(cfg: MoltbotConfig, agent: FakeAgent): FakeRuntime {
+  const contexts: InboundContext[] = [];
+  const systemEvents: Array<{ text: string; sessionKey: string }> = [];
+
+  const runtime: PluginRuntime = {
+    version: 'test',
+    config: {
+      loadConfig: () => cfg,
+      writeConfigFile: async () => undefined,
+    },
+    channel: {
+      text: {
+        chunkMarkdownText: (text, limit) => {
+          const chunks: string[] = [];
+          for (let index = 0; index < text.length; index += limit) {
+            chunks.push(text.slice(index, index + limit));
+          }
+          return chunks;
+        },
+        hasControlCommand: (text) => text.trim().startsWith('/'),
+      },
+      reply: {
+        formatAgentEnvelope: ({ body }) => body,
+        finalizeInboundContext: (ctx) => ctx as InboundContext,
+        resolveEffectiveMessagesConfig: () => ({}),
+        resolveHumanDelayConfig: () => undefined,
+        dispatchReplyWithBufferedBlockDispatcher: async ({ ctx, dispatcherOptions }) => {
+          contexts.push(ctx);
+          const text = agent(ctx);
+          if (text) await dispatcherOptions.deliver({ text });
+        },
+      },
+      routing: {
+        resolveAgentRoute: ({ accountId, peer }) => ({
+          agentId: 'main',
+          accountId,
+          sessionKey: `qq-channel:${accountId}:${peer.kind}:${peer.id}`,
+        }),
+      },
+    },
+    system: {
+      enqueueSystemEvent: (text, { sessionKey }) => {
+        systemEvents.push({ text, sessionKey });
+      },
+    },
+    logging: {
+      shouldLogVerbose: () => false,
+      getChildLogger: () => ({ info: () => undefined, warn: () => undefined, error: () => undefined }),
+    },
+  };
+
+  return { runtime, contexts, systemEvents };
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildTemplateParams, formatReplyMessage, toQQMarkdown } from '../src/markdown.js';
+import type { QQChannelAccount } from '../src/types.js';
+
+test('turns bare URLs and autolinks into links without trailing punctuation', () => {
+  assert.equal(
+    toQQMarkdown('see https://example.com/a_b, or <https://example.org>.'),
+    'see [https://example.com/a_b](https://example.com/a_b), or [https://example.org](https://example.org).'
+  );
+});
+
+test('leaves code spans, code blocks and existing links untouched', () => {
+  assert.equal(toQQMarkdown('run `curl https://x.io/<b>` now'), 'run `curl https://x.io/<b>` now');
+  assert.equal(toQQMarkdown('[docs](https://x.io/a_b) and ![img](https://x.io/i.png)'), '[docs](https://x.io/a_b) and ![img](https://x.io/i.png)');
+  assert.equal(toQQMarkdown('```\n<div>__init__</div> https://x.io\n```'), '```\n<div>__init__</div> https://x.io\n```');
+});
+
+test('strips real HTML tags but keeps comparisons, generics and QQ tags', () => {
+  assert.equal(toQQMarkdown('if x<y and y>z then List<String> works'), 'if x<y and y>z then List<String> works');
+  assert.equal(toQQMarkdown('a<b and c>d, Pair<S>'), 'a<b and c>d, Pair<S>');
+  assert.equal(toQQMarkdown('<b>bold</b> <a href="https://x.io">x</a><br/>'), 'bold x');
+  assert.equal(toQQMarkdown('hi <qqbot-at-user id="1" />'), 'hi <qqbot-at-user id="1" />');
+});
+
+test('converts underscore emphasis only at word boundaries', () => {
+  assert.equal(toQQMarkdown('__Important note__ here'), '**Important note** here');
+  assert.equal(toQQMarkdown('call __init__ first'), 'call __init__ first');
+  assert.equal(toQQMarkdown('snake__case__name'), 'snake__case__name');
+});
+
+test('flattens tables, deep headings and task lists', () => {
+  assert.equal(toQQMarkdown('| a | b |\n|---|---|\n| 1 | 2 |'), 'a | b\n1 | 2');
+  assert.equal(toQQMarkdown('#### Deep'), '**Deep**');
+  assert.equal(toQQMarkdown('- [ ] todo\n- [x] done'), '- ☐ todo\n- ☑ done');
+});
+
+test('fills template params and tolerates templates without params', () => {
+  const params = buildTemplateParams({ id: 't1', params: { head: '{title}', rest: '> {body}' } }, '# Title\nline 1\nline 2');
+  assert.deepEqual(params, [
+    { key: 'head', values: ['Title'] },
+    { key: 'rest', values: ['> line 1\nline 2'] },
+  ]);
+  assert.deepEqual(buildTemplateParams({ id: 't1' }, 'text'), []);
+});
+
+test('builds the reply body in the configured format', () => {
+  const account = { appId: 'a', appSecret: 's', botToken: 't' } as QQChannelAccount;
+
+  assert.deepEqual(formatReplyMessage(account, 'see https://x.io'), { content: 'see [link]' });
+  assert.deepEqual(formatReplyMessage({ ...account, messageFormat: 'markdown' }, '<b>hi</b>'), {
+    markdown: { content: 'hi' },
+  });
+  // A template format without a template id falls back to text
+  assert.deepEqual(formatReplyMessage({ ...account, messageFormat: 'template' }, 'hi'), { content: 'hi' });
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, test } from 'node:test';
+import { createFakeRuntime } from './fake-runtime.js';
+import type { FakeRuntime } from './fake-runtime.js';
+import { QQSimulator } from './simulator.js';
+
+// DM sessions are persisted under the home directory, keep them out of the real one
+const home = await mkdtemp(join(tmpdir(), 'qq-channel-test-'));
+process.env.HOME = home;
+const { qqChannelPlugin } = await import('../src/channel.js');
+const { setQQRuntime } = await import('../src/runtime.js');
+
+const ACCOUNT_ID = 'default';
+
+let simulator: QQSimulator;
+let fake: FakeRuntime;
+let stopAccount: (() => Promise<void>) | null = null;
+
+before(async () => {
+  simulator = new QQSimulator({
+    appId: 'test-app',
+    appSecret: 'test-secret',
+    guilds: [{ id: 'g1', name: 'Test Guild' }],
+    channels: [{ id: 'c1', guild_id: 'g1', name: 'general' }],
+    members: [
+      { guildId: 'g1', userId: 'u1', roles: ['1'] },
+      { guildId: 'g1', userId: 'u4', roles: ['5'] },
+    ],
+  });
+  await simulator.start();
+
+  const cfg = {
+    channels: {
+      'qq-channel': {
+        appId: 'test-app',
+        appSecret: 'test-secret',
+        botToken: 'unused',
+        apiBase: simulator.apiBase,
+        tokenEndpoint: simulator.tokenEndpoint,
+        enabled: true,
+        // Only members with role 1 may talk to the bot in guild channels
+        access: { roles: { allow: ['1'] } },
+      },
+    },
+  };
+  fake = createFakeRuntime(cfg, (ctx) => `echo: ${ctx.RawBody}`);
+  setQQRuntime(fake.runtime);
+
+  const identified = simulator.waitFor('identify');
+  stopAccount = await qqChannelPlugin.gateway.startAccount({ accountId: ACCOUNT_ID, cfg, pushInbound: () => undefined });
+  await identified;
+});
+
+after(async () => {
+  await stopAccount?.();
+  await simulator.stop();
+  await rm(home, { recursive: true, force: true });
+});
+
+test('answers a channel @ message with a passive reply', async () => {
+  const replied = simulator.waitFor('message', (message) => message.targetId === 'c1');
+  simulator.dispatch('AT_MESSAGE_CREATE', {
+    id: 'm1',
+    channel_id: 'c1',
+    guild_id: 'g1',
+    content: '<@!10000> hello',
+    timestamp: new Date().toISOString(),
+    author: { id: 'u1', username: 'alice', bot: false },
+    member: { roles: ['1'] },
+  });
+
+  const reply = await replied;
+  assert.equal(reply.scene, 'channel');
+  assert.equal(reply.body.msg_id, 'm1');
+  assert.equal(reply.body.content, 'echo: hello');
+  assert.equal(fake.contexts.at(-1)?.From, 'qq-channel:channel:c1');
+});
+
+test('applies the role filter to button clicks, which carry no roles', async () => {
+  const click = (id: string, userId: string) =>
+    simulator.dispatch('INTERACTION_CREATE', {
+      id,
+      type: 11,
+      chat_type: 0,
+      timestamp: new Date().toISOString(),
+      guild_id: 'g1',
+      channel_id: 'c1',
+      data: { type: 11, resolved: { button_data: `clicked by ${userId}`, button_id: 'b1', user_id: userId } },
+    });
+
+  // The roles of u4 are looked up and do not include 1
+  const lookedUp = simulator.waitFor('request', (request) => request.path === '/guilds/g1/members/u4');
+  click('i1', 'u4');
+  await lookedUp;
+
+  const replied = simulator.waitFor('message', (message) => message.body.event_id === 'i2');
+  click('i2', 'u1');
+  const reply = await replied;
+  assert.equal(reply.targetId, 'c1');
+  assert.equal(reply.body.content, 'echo: clicked by u1');
+  assert.ok(!fake.contexts.some((ctx) => ctx.MessageSid === 'i1'));
+});
+
+test('opens a DM session for a proactive DM and answers the reply in it', async () => {
+  const sent = await qqChannelPlugin.outbound.sendText({
+    to: 'qq-channel:dm:u2@g1',
+    text: 'hi there',
+    accountId: ACCOUNT_ID,
+  });
+  const proactive = simulator.messages.at(-1)!;
+  assert.equal(proactive.scene, 'direct');
+  assert.equal(proactive.body.content, 'hi there');
+  assert.equal(sent.messageId, proactive.id);
+  assert.ok(simulator.requests.some((request) => request.path === '/users/@me/dms' && request.body?.recipient_id === 'u2'));
+
+  const replied = simulator.waitFor('message', (message) => message.scene === 'direct' && message.body.msg_id === 'd1');
+  simulator.dispatch('DIRECT_MESSAGE_CREATE', {
+    id: 'd1',
+    channel_id: 'dc1',
+    guild_id: proactive.targetId,
+    src_guild_id: 'g1',
+    content: 'thanks',
+    timestamp: new Date().toISOString(),
+    author: { id: 'u2', username: 'bob', bot: false },
+  });
+
+  const reply = await replied;
+  assert.equal(reply.targetId, proactive.targetId);
+  assert.equal(reply.body.content, 'echo: thanks');
+});
+
+test('renews an expired DM session from the guild it was opened from', async () => {
+  const previous = simulator.messages.filter((message) => message.scene === 'direct').at(-1)!.targetId;
+  simulator.expireDmSessions();
+
+  await qqChannelPlugin.outbound.sendText({ to: 'qq-channel:dm:u2', text: 'still there?', accountId: ACCOUNT_ID });
+  const sent = simulator.messages.at(-1)!;
+  assert.equal(sent.scene, 'direct');
+  assert.notEqual(sent.targetId, previous);
+  assert.equal(sent.body.content, 'still there?');
+  const opened = simulator.requests.filter((request) => request.path === '/users/@me/dms' && request.body?.recipient_id === 'u2');
+  assert.equal(opened.length, 2);
+  assert.equal(opened[1].body?.source_guild_id, 'g1');
+});
+
+test('renews a DM session the user opened with the guild from the inbound message', async () => {
+  // The passive reply to the dead session fails, the next proactive send renews it
+  const replied = simulator.waitFor('request', (request) => request.path === '/dms/dms-unknown/messages');
+  simulator.dispatch('DIRECT_MESSAGE_CREATE', {
+    id: 'd2',
+    channel_id: 'dc2',
+    guild_id: 'dms-unknown',
+    src_guild_id: 'g1',
+    content: 'hello bot',
+    timestamp: new Date().toISOString(),
+    author: { id: 'u3', username: 'carol', bot: false },
+  });
+  await replied;
+
+  await qqChannelPlugin.outbound.sendText({ to: 'qq-channel:dm:u3', text: 'welcome', accountId: ACCOUNT_ID });
+  const sent = simulator.messages.at(-1)!;
+  assert.equal(sent.scene, 'direct');
+  assert.notEqual(sent.targetId, 'dms-unknown');
+  assert.equal(sent.body.content, 'welcome');
+  assert.ok(simulator.requests.some((request) => request.path === '/users/@me/dms' && request.body?.recipient_id === 'u3'));
+});
+
+test('does not renew the DM session or send again when the send fails with a server error', async () => {
+  const opened = () => simulator.requests.filter((request) => request.path === '/users/@me/dms').length;
+  const sends = () => simulator.requests.filter((request) => /^\/dms\/[^/]+\/messages$/.test(request.path)).length;
+  const openedBefore = opened();
+  const sendsBefore = sends();
+
+  // A 502 may come after the message was delivered, sending again could deliver it twice
+  simulator.failNext('POST', /^\/dms\/[^/]+\/messages$/, { status: 502, body: { message: 'bad gateway' } });
+  await assert.rejects(qqChannelPlugin.outbound.sendText({ to: 'qq-channel:dm:u2', text: 'once', accountId: ACCOUNT_ID }));
+  assert.equal(opened(), openedBefore);
+  assert.equal(sends(), sendsBefore + 1);
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ActiveQuotaTracker, MAX_PASSIVE_REPLIES, PassiveReplyBudget, ReplyBudgetRegistry } from '../src/reply-budget.js';
+
+const MINUTE = 60 * 1000;
+
+test('numbers passive replies and falls back to event_id, then to active sends', () => {
+  const budget = new PassiveReplyBudget('group', 'm1', 'e1', 0);
+
+  for (let seq = 1; seq <= MAX_PASSIVE_REPLIES; seq++) {
+    assert.deepEqual(budget.next(0), { kind: 'passive', msgId: 'm1', msgSeq: seq });
+  }
+  // msg_seq keeps counting across msg_id and event_id replies
+  assert.deepEqual(budget.next(0), { kind: 'event', eventId: 'e1', msgSeq: MAX_PASSIVE_REPLIES + 1 });
+  assert.equal(budget.remaining(0), MAX_PASSIVE_REPLIES - 1);
+
+  for (let index = 1; index < MAX_PASSIVE_REPLIES; index++) budget.next(0);
+  assert.deepEqual(budget.next(0), { kind: 'active' });
+  assert.equal(budget.remaining(0), 0);
+});
+
+test('closes the reply window after the scene timeout or when expired early', () => {
+  const group = new PassiveReplyBudget('group', 'm1', undefined, 0);
+  assert.equal(group.isWindowOpen(5 * MINUTE - 1), true);
+  assert.deepEqual(group.next(5 * MINUTE), { kind: 'active' });
+
+  // C2C messages can be answered for an hour
+  const c2c = new PassiveReplyBudget('c2c', 'm2', undefined, 0);
+  assert.equal(c2c.isWindowOpen(59 * MINUTE), true);
+
+  const expired = new PassiveReplyBudget('channel', 'm3');
+  expired.expire();
+  assert.deepEqual(expired.next(), { kind: 'active' });
+});
+
+test('shares one budget per message id', () => {
+  const registry = new ReplyBudgetRegistry();
+  const first = registry.getOrCreate('group', 'm1');
+  first.next();
+
+  const second = registry.getOrCreate('group', 'm1', 'e1');
+  assert.equal(second, first);
+  assert.deepEqual(second.next(), { kind: 'passive', msgId: 'm1', msgSeq: 2 });
+  assert.notEqual(registry.getOrCreate('group', 'm2'), first);
+});
+
+test('counts guild and DM quotas per day and group and C2C quotas per month', () => {
+  const tracker = new ActiveQuotaTracker();
+  const morning = new Date(2026, 0, 10, 9);
+  const nextDay = new Date(2026, 0, 11, 9);
+  const nextMonth = new Date(2026, 1, 1, 9);
+
+  const direct = { scope: 'direct' as const, id: 'u1' };
+  assert.equal(tracker.tryConsume(direct, morning), true);
+  assert.equal(tracker.tryConsume(direct, morning), true);
+  assert.equal(tracker.tryConsume(direct, morning), false);
+  assert.equal(tracker.remaining(direct, nextDay), 2);
+
+  // DM and C2C users are counted separately even with the same id
+  const c2c = { scope: 'c2c' as const, id: 'u1' };
+  assert.equal(tracker.remaining(c2c, morning), 4);
+
+  const group = { scope: 'group' as const, id: 'g1' };
+  tracker.exhaust(group, morning);
+  assert.equal(tracker.remaining(group, nextDay), 0);
+  assert.equal(tracker.remaining(group, nextMonth), 4);
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { QQApiClient } from '../src/api/client.js';
+import { QQChannelRuntime } from '../src/runtime.js';
+import { Intents } from '../src/types.js';
+import type { QQInboundMessage } from '../src/types.js';
+import { QQSimulator, waitUntil } from './simulator.js';
+
+const APP_ID = 'test-app';
+const APP_SECRET = 'test-secret';
+
+let simulator: QQSimulator;
+let client: QQApiClient;
+
+before(async () => {
+  simulator = new QQSimulator({ appId: APP_ID, appSecret: APP_SECRET });
+  await simulator.start();
+  client = new QQApiClient({
+    appId: APP_ID,
+    appSecret: APP_SECRET,
+    apiBase: simulator.apiBase,
+    tokenEndpoint: simulator.tokenEndpoint,
+  });
+});
+
+after(async () => {
+  client.close();
+  await simulator.stop();
+});
+
+test('identifies with the access token and resumes the session after a reconnect request', async () => {
+  const inbound: QQInboundMessage[] = [];
+  let resolveReady!: (sessionId: string) => void;
+  const ready = new Promise<string>((resolve) => (resolveReady = resolve));
+  let resolveResumed!: (sessionId: string) => void;
+  const resumed = new Promise<string>((resolve) => (resolveResumed = resolve));
+
+  const runtime = new QQChannelRuntime({
+    appId: APP_ID,
+    botToken: 'unused',
+    apiClient: client,
+    intents: Intents.GUILDS | Intents.PUBLIC_GUILD_MESSAGES,
+    messageMode: 'public',
+    onMessage: (message) => inbound.push(message),
+    onReady: (sessionId) => resolveReady(sessionId),
+    onResumed: (sessionId) => resolveResumed(sessionId),
+    onError: () => undefined,
+  });
+
+  try {
+    const identified = simulator.waitFor('identify');
+    await runtime.start();
+
+    const identify = await identified;
+    assert.equal(identify.token, `QQBot ${await client.getAccessToken()}`);
+    assert.equal(identify.intents, Intents.GUILDS | Intents.PUBLIC_GUILD_MESSAGES);
+    const sessionId = await ready;
+
+    simulator.dispatch('AT_MESSAGE_CREATE', {
+      id: 'm1',
+      channel_id: 'c1',
+      guild_id: 'g1',
+      content: 'hello',
+      timestamp: new Date().toISOString(),
+      author: { id: 'u1', username: 'alice', bot: false },
+    });
+    await waitUntil(() => inbound.length === 1);
+    assert.equal(inbound[0].scene, 'channel');
+
+    // READY is seq 1 and the message seq 2, a resume picks up from there
+    const resuming = simulator.waitFor('resume');
+    simulator.requestReconnect();
+    const resume = await resuming;
+    assert.equal(resume.session_id, sessionId);
+    assert.equal(resume.seq, 2);
+    assert.equal(await resumed, sessionId);
+  } finally {
+    await runtime.stop();
+  }
+});
+
+test('stops reconnecting when the bot is banned', async () => {
+  let resolveError!: (error: Error) => void;
+  const failed = new Promise<Error>((resolve) => (resolveError = resolve));
+  let identifies = 0;
+  const unsubscribe = simulator.on('identify', () => identifies++);
+
+  const runtime = new QQChannelRuntime({
+    appId: APP_ID,
+    botToken: 'unused',
+    apiClient: client,
+    intents: Intents.GUILDS,
+    messageMode: 'public',
+    onMessage: () => undefined,
+    onReady: () => undefined,
+    onError: (error) => resolveError(error),
+  });
+
+  try {
+    await runtime.start();
+    await waitUntil(() => identifies === 1);
+
+    simulator.closeConnections(4915, 'banned');
+    // Only fatal close codes are reported, others schedule a reconnect
+    assert.match((await failed).message, /4915/);
+  } finally {
+    unsubscribe();
+    await runtime.stop();
+  }
+});
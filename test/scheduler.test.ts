@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { routeOf } from '../src/api/scheduler.js';
+
+test('replaces ids in request paths so one route shares one bucket', () => {
+  const cases: Array<[string, string]> = [
+    ['/channels/123/messages', '/channels/:id/messages'],
+    ['/channels/123/messages/456', '/channels/:id/messages/:id'],
+    ['/v2/groups/G1/messages', '/v2/groups/:id/messages'],
+    ['/v2/users/U1/files', '/v2/users/:id/files'],
+    ['/dms/dms-1/messages/m1?hidetip=true', '/dms/:id/messages/:id'],
+    ['/users/@me/guilds?limit=100&after=g1', '/users/@me/guilds'],
+    ['/guilds/g1/members/u1', '/guilds/:id/members/:id'],
+    ['/channels/1/messages/2/reactions/1/4', '/channels/:id/messages/:id/reactions/:id/:id'],
+    ['/gateway/bot', '/gateway/bot'],
+  ];
+
+  for (const [path, route] of cases) {
+    assert.equal(routeOf(path), route, path);
+  }
+});
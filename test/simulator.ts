@@ -0,0 +1,654 @@
+/**
+ * Local QQ Open Platform simulator
+ * Serves the token endpoint, the REST routes the plugin uses and the WebSocket gateway on one local port,
+ * so QQApiClient, QQChannelRuntime and the plugin can be exercised end to end without credentials or network
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { ChannelType, OpCode } from '../src/types.js';
+import type {
+  BotUser,
+  Channel,
+  EventType,
+  Guild,
+  IdentifyPayload,
+  MessageScene,
+  ResumePayload,
+  WSPayload,
+} from '../src/types.js';
+
+export interface SimulatorOptions {
+  appId: string;
+  appSecret: string;
+  // Port to listen on, 0 picks a free one
+  port?: number;
+  tokenTtlSeconds?: number;
+  heartbeatInterval?: number;
+  shards?: number;
+  maxConcurrency?: number;
+  sessionStartLimit?: number;
+  botUser?: BotUser;
+  // Fields left out get placeholder values
+  guilds?: Array<Partial<Guild> & Pick<Guild, 'id'>>;
+  channels?: Array<Partial<Channel> & Pick<Channel, 'id' | 'guild_id'>>;
+  members?: SimulatedMember[];
+}
+
+// Guild member served by GET /guilds/{guild_id}/members/{user_id}
+export interface SimulatedMember {
+  guildId: string;
+  userId: string;
+  roles: string[];
+}
+
+// REST request as the simulator received it, multipart bodies are decoded into their fields
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | undefined;
+}
+
+// Message the bot sent through one of the message routes
+export interface SimulatedMessage {
+  id: string;
+  scene: MessageScene;
+  targetId: string;
+  body: Record<string, unknown>;
+}
+
+export interface ScriptedResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface SimulatorEvents {
+  request: [RecordedRequest];
+  message: [SimulatedMessage];
+  recall: [{ scene: MessageScene; targetId: string; messageId: string; hideTip: boolean }];
+  identify: [IdentifyPayload];
+  resume: [ResumePayload];
+  heartbeat: [number | null];
+}
+
+export type SimulatorListener<K extends keyof SimulatorEvents> = (...args: SimulatorEvents[K]) => void;
+
+type ListenerMap = { [K in keyof SimulatorEvents]: Set<SimulatorListener<K>> };
+
+interface ScriptedFailure {
+  method: string;
+  path: string | RegExp;
+  response: ScriptedResponse;
+}
+
+interface GatewaySession {
+  id: string;
+  shard: [number, number];
+  intents: number;
+  seq: number;
+  events: WSPayload[];
+  socket: WebSocket | null;
+}
+
+type RouteHandler = (params: string[], request: RecordedRequest) => ScriptedResponse;
+
+const DEFAULT_BOT_USER: BotUser = { id: '10000', username: 'simulated-bot', bot: true };
+
+// Events kept per session for Resume replay
+const MAX_REPLAY_EVENTS = 1000;
+
+export class QQSimulator {
+  readonly messages: SimulatedMessage[] = [];
+  readonly requests: RecordedRequest[] = [];
+
+  private listeners: ListenerMap = {
+    request: new Set(),
+    message: new Set(),
+    recall: new Set(),
+    identify: new Set(),
+    resume: new Set(),
+    heartbeat: new Set(),
+  };
+
+  private options: Required<Omit<SimulatorOptions, 'guilds' | 'channels' | 'members'>>;
+  private guilds: Guild[];
+  private channels: Channel[];
+  private members: SimulatedMember[];
+  private server: Server;
+  private wss: WebSocketServer;
+  private tokens: Map<string, number> = new Map();
+  private sessions: Map<string, GatewaySession> = new Map();
+  private sockets: Set<WebSocket> = new Set();
+  private failures: ScriptedFailure[] = [];
+  private dmGuilds: Map<string, string> = new Map();
+  private sessionStartRemaining: number;
+  private ackHeartbeats = true;
+  private nextId = 1;
+  private routes: Array<[string, RegExp, RouteHandler]>;
+
+  constructor(options: SimulatorOptions) {
+    this.options = {
+      port: 0,
+      tokenTtlSeconds: 7200,
+      heartbeatInterval: 41250,
+      shards: 1,
+      maxConcurrency: 1,
+      sessionStartLimit: 1000,
+      botUser: DEFAULT_BOT_USER,
+      ...options,
+    };
+    this.guilds = (options.guilds ?? []).map((guild) => ({ name: guild.id, owner_id: '0', ...guild }));
+    this.channels = (options.channels ?? []).map((channel) => ({ name: channel.id, type: ChannelType.Text, ...channel }));
+    this.members = options.members ?? [];
+    this.sessionStartRemaining = this.options.sessionStartLimit;
+    this.routes = this.buildRoutes();
+
+    this.server = createServer((req, res) => {
+      this.handleHttp(req, res).catch((error) => {
+        this.respond(res, { status: 500, body: { code: 500, message: String(error) } });
+      });
+    });
+    this.wss = new WebSocketServer({ server: this.server, path: '/websocket' });
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port, '127.0.0.1', () => resolve());
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.terminate();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  get apiBase(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get tokenEndpoint(): string {
+    return `${this.apiBase}/app/getAppAccessToken`;
+  }
+
+  get gatewayUrl(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}/websocket`;
+  }
+
+  // --- Scripting ---
+
+  /**
+   * Send a dispatch event to every ready session, or only to one shard
+   */
+  dispatch(eventType: EventType, data: unknown, shardId?: number): void {
+    const targets = [...this.sessions.values()].filter((session) => shardId === undefined || session.shard[0] === shardId);
+    if (targets.length === 0) {
+      throw new Error(`No gateway session to dispatch ${eventType} to`);
+    }
+    for (const session of targets) {
+      this.sendEvent(session, eventType, data);
+    }
+  }
+
+  /**
+   * Ask every connection to reconnect (op 7)
+   */
+  requestReconnect(): void {
+    for (const socket of this.sockets) {
+      this.send(socket, { op: OpCode.Reconnect, d: null });
+    }
+  }
+
+  /**
+   * Invalidate every session (op 9), non-resumable sessions are forgotten
+   */
+  invalidateSessions(resumable = false): void {
+    for (const socket of this.sockets) {
+      this.send(socket, { op: OpCode.InvalidSession, d: resumable });
+    }
+    if (!resumable) this.sessions.clear();
+  }
+
+  /**
+   * Close every gateway connection with a close code
+   */
+  closeConnections(code = 4000, reason = 'simulated disconnect'): void {
+    for (const socket of this.sockets) socket.close(code, reason);
+  }
+
+  /**
+   * Stop acknowledging heartbeats, e.g. to simulate a half-open connection
+   */
+  setHeartbeatAcks(enabled: boolean): void {
+    this.ackHeartbeats = enabled;
+  }
+
+  /**
+   * Expire every issued access token, the next API call gets a 401
+   */
+  expireTokens(): void {
+    this.tokens.clear();
+  }
+
+  /**
+   * Forget every DMS session, sends to them fail until a new session is created
+   */
+  expireDmSessions(): void {
+    this.dmGuilds.clear();
+  }
+
+  /**
+   * Answer the next matching request with a scripted response instead of handling it
+   */
+  failNext(method: string, path: string | RegExp, response: ScriptedResponse): void {
+    this.failures.push({ method: method.toUpperCase(), path, response });
+  }
+
+  /**
+   * Hold the next message sent to a channel for review, returns its audit id
+   */
+  holdNextForAudit(): string {
+    const auditId = `audit-${this.nextId++}`;
+    this.failNext('POST', /^\/(channels|dms)\/[^/]+\/messages$/, {
+      status: 202,
+      body: { code: 304023, message: 'push message is auditing', data: { message_audit: { audit_id: auditId } } },
+    });
+    return auditId;
+  }
+
+  /**
+   * Dispatch the audit result of a held message
+   */
+  resolveAudit(auditId: string, passed: boolean, channelId = '', guildId = ''): string | undefined {
+    const messageId = passed ? this.generateId('msg') : undefined;
+    this.dispatch(passed ? 'MESSAGE_AUDIT_PASS' : 'MESSAGE_AUDIT_REJECT', {
+      audit_id: auditId,
+      message_id: messageId,
+      guild_id: guildId,
+      channel_id: channelId,
+      audit_time: new Date().toISOString(),
+      create_time: new Date().toISOString(),
+    });
+    return messageId;
+  }
+
+  /**
+   * Listen to an event, returns a function that removes the listener
+   */
+  on<K extends keyof SimulatorEvents>(event: K, listener: SimulatorListener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  /**
+   * Resolve once an event matching the predicate is emitted
+   */
+  waitFor<K extends keyof SimulatorEvents>(
+    event: K,
+    predicate: (...args: SimulatorEvents[K]) => boolean = () => true,
+    timeoutMs = 5000
+  ): Promise<SimulatorEvents[K][0]> {
+    return new Promise((resolve, reject) => {
+      const off = this.on(event, (...args) => {
+        if (!predicate(...args)) return;
+        clearTimeout(timer);
+        off();
+        resolve(args[0]);
+      });
+      const timer = setTimeout(() => {
+        off();
+        reject(new Error(`Timed out after ${timeoutMs}ms waiting for simulator event "${event}"`));
+      }, timeoutMs);
+    });
+  }
+
+  private emit<K extends keyof SimulatorEvents>(event: K, ...args: SimulatorEvents[K]): void {
+    for (const listener of this.listeners[event]) listener(...args);
+  }
+
+  // --- Gateway ---
+
+  private handleConnection(socket: WebSocket): void {
+    this.sockets.add(socket);
+    this.send(socket, { op: OpCode.Hello, d: { heartbeat_interval: this.options.heartbeatInterval } });
+
+    socket.on('message', (raw) => {
+      try {
+        this.handleGatewayPayload(socket, JSON.parse(raw.toString()) as WSPayload);
+      } catch {
+        socket.close(4001, 'invalid payload');
+      }
+    });
+
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      for (const session of this.sessions.values()) {
+        if (session.socket === socket) session.socket = null;
+      }
+    });
+  }
+
+  private handleGatewayPayload(socket: WebSocket, payload: WSPayload): void {
+    switch (payload.op) {
+      case OpCode.Identify: {
+        const identify = payload.d as IdentifyPayload;
+        if (!this.isValidToken(identify.token.replace(/^QQBot /, ''))) {
+          socket.close(4004, 'invalid token');
+          return;
+        }
+        if (this.sessionStartRemaining <= 0) {
+          socket.close(4009, 'session start limit reached');
+          return;
+        }
+        this.sessionStartRemaining--;
+        this.emit('identify', identify);
+
+        const session: GatewaySession = {
+          id: randomUUID(),
+          shard: identify.shard ?? [0, 1],
+          intents: identify.intents,
+          seq: 0,
+          events: [],
+          socket,
+        };
+        this.sessions.set(session.id, session);
+        this.sendEvent(session, 'READY', {
+          version: 1,
+          session_id: session.id,
+          user: this.options.botUser,
+          shard: session.shard,
+        });
+        return;
+      }
+
+      case OpCode.Resume: {
+        const resume = payload.d as ResumePayload;
+        const session = this.sessions.get(resume.session_id);
+        if (!session || !this.isValidToken(resume.token.replace(/^QQBot /, ''))) {
+          this.send(socket, { op: OpCode.InvalidSession, d: false });
+          return;
+        }
+        this.emit('resume', resume);
+
+        // Replay what the client missed, then confirm
+        session.socket = socket;
+        for (const event of session.events) {
+          if ((event.s ?? 0) > resume.seq) this.send(socket, event);
+        }
+        this.sendEvent(session, 'RESUMED', '');
+        return;
+      }
+
+      case OpCode.Heartbeat:
+        this.emit('heartbeat', payload.d as number | null);
+        if (this.ackHeartbeats) {
+          this.send(socket, { op: OpCode.HeartbeatAck, d: null });
+        }
+        return;
+
+      default:
+        return;
+    }
+  }
+
+  private sendEvent(session: GatewaySession, eventType: EventType, data: unknown): void {
+    const payload: WSPayload = {
+      op: OpCode.Dispatch,
+      s: ++session.seq,
+      t: eventType,
+      d: data,
+      id: `${eventType}:${randomUUID()}`,
+    };
+
+    session.events.push(payload);
+    if (session.events.length > MAX_REPLAY_EVENTS) session.events.shift();
+
+    if (session.socket) this.send(session.socket, payload);
+  }
+
+  private send(socket: WebSocket, payload: WSPayload): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  }
+
+  // --- REST ---
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const request: RecordedRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body: await readBody(req),
+    };
+    this.requests.push(request);
+    this.emit('request', request);
+
+    const failureIndex = this.failures.findIndex((failure) =>
+      failure.method === request.method &&
+      (typeof failure.path === 'string' ? failure.path === request.path : failure.path.test(request.path))
+    );
+    if (failureIndex >= 0) {
+      const [failure] = this.failures.splice(failureIndex, 1);
+      this.respond(res, failure.response);
+      return;
+    }
+
+    if (request.path === '/app/getAppAccessToken') {
+      this.respond(res, this.issueToken(request));
+      return;
+    }
+
+    const token = String(req.headers.authorization ?? '').replace(/^QQBot /, '');
+    if (!this.isValidToken(token)) {
+      this.respond(res, { status: 401, body: { code: 11244, message: 'token not exist or expire' } });
+      return;
+    }
+
+    for (const [method, pattern, handler] of this.routes) {
+      const match = method === request.method ? pattern.exec(request.path) : null;
+      if (match) {
+        this.respond(res, handler(match.slice(1), request));
+        return;
+      }
+    }
+
+    this.respond(res, { status: 404, body: { code: 404, message: `no route for ${request.method} ${request.path}` } });
+  }
+
+  private buildRoutes(): Array<[string, RegExp, RouteHandler]> {
+    const message = (scene: MessageScene) => ([targetId]: string[], request: RecordedRequest) =>
+      this.recordMessage(scene, targetId, request.body ?? {});
+    const recall = (scene: MessageScene) => ([targetId, messageId]: string[], request: RecordedRequest) => {
+      this.emit('recall', { scene, targetId, messageId, hideTip: request.query.get('hidetip') === 'true' });
+      return { status: 200 };
+    };
+    const upload = (): ScriptedResponse => ({
+      status: 200,
+      body: { file_uuid: this.generateId('file'), file_info: this.generateId('info'), ttl: 3600 },
+    });
+
+    return [
+      ['GET', /^\/gateway\/bot$/, () => ({
+        status: 200,
+        body: {
+          url: this.gatewayUrl,
+          shards: this.options.shards,
+          session_start_limit: {
+            total: this.options.sessionStartLimit,
+            remaining: this.sessionStartRemaining,
+            reset_after: 86400000,
+            max_concurrency: this.options.maxConcurrency,
+          },
+        },
+      })],
+      ['GET', /^\/users\/@me\/guilds$/, (_, request) => {
+        const after = request.query.get('after') ?? '';
+        const limit = Number(request.query.get('limit') ?? 100);
+        const page = [...this.guilds].sort((a, b) => a.id.localeCompare(b.id)).filter((guild) => guild.id > after);
+        return { status: 200, body: page.slice(0, limit) };
+      }],
+      ['GET', /^\/guilds\/([^/]+)\/channels$/, ([guildId]) => ({
+        status: 200,
+        body: this.channels.filter((channel) => channel.guild_id === guildId),
+      })],
+      ['GET', /^\/guilds\/([^/]+)\/members\/([^/]+)$/, ([guildId, userId]) => {
+        const member = this.members.find((m) => m.guildId === guildId && m.userId === userId);
+        if (!member) return { status: 404, body: { code: 50001, message: 'member not found' } };
+        return {
+          status: 200,
+          body: { user: { id: userId, username: userId, bot: false }, roles: member.roles, joined_at: new Date(0).toISOString() },
+        };
+      }],
+      ['POST', /^\/users\/@me\/dms$/, (_, request) => {
+        const userId = String(request.body?.recipient_id ?? '');
+        let guildId = this.dmGuilds.get(userId);
+        if (!guildId) {
+          guildId = this.generateId('dms');
+          this.dmGuilds.set(userId, guildId);
+        }
+        return { status: 200, body: { guild_id: guildId, channel_id: `${guildId}-channel`, create_time: new Date().toISOString() } };
+      }],
+      ['POST', /^\/channels\/([^/]+)\/messages$/, message('channel')],
+      ['POST', /^\/dms\/([^/]+)\/messages$/, ([guildId], request) => {
+        if (![...this.dmGuilds.values()].includes(guildId)) {
+          return { status: 404, body: { code: 304050, message: 'dms session not found' } };
+        }
+        return this.recordMessage('direct', guildId, request.body ?? {});
+      }],
+      ['POST', /^\/v2\/groups\/([^/]+)\/messages$/, message('group')],
+      ['POST', /^\/v2\/users\/([^/]+)\/messages$/, message('c2c')],
+      ['GET', /^\/channels\/([^/]+)\/messages\/([^/]+)$/, ([channelId, messageId]) => {
+        const sent = this.messages.find((m) => m.scene === 'channel' && m.targetId === channelId && m.id === messageId);
+        return sent
+          ? { status: 200, body: { message: this.channelMessageBody(sent) } }
+          : { status: 404, body: { code: 304007, message: 'message not found' } };
+      }],
+      ['DELETE', /^\/channels\/([^/]+)\/messages\/([^/]+)$/, recall('channel')],
+      ['DELETE', /^\/dms\/([^/]+)\/messages\/([^/]+)$/, recall('direct')],
+      ['DELETE', /^\/v2\/groups\/([^/]+)\/messages\/([^/]+)$/, recall('group')],
+      ['DELETE', /^\/v2\/users\/([^/]+)\/messages\/([^/]+)$/, recall('c2c')],
+      ['POST', /^\/v2\/groups\/([^/]+)\/files$/, upload],
+      ['POST', /^\/v2\/users\/([^/]+)\/files$/, upload],
+      ['PUT', /^\/channels\/[^/]+\/messages\/[^/]+\/reactions\/[^/]+\/[^/]+$/, () => ({ status: 204 })],
+      ['DELETE', /^\/channels\/[^/]+\/messages\/[^/]+\/reactions\/[^/]+\/[^/]+$/, () => ({ status: 204 })],
+      ['GET', /^\/channels\/[^/]+\/messages\/[^/]+\/reactions\/[^/]+\/[^/]+$/, () => ({
+        status: 200,
+        body: { users: [], cookie: '', is_end: true },
+      })],
+      ['PUT', /^\/channels\/([^/]+)\/threads$/, () => ({
+        status: 200,
+        body: { task_id: this.generateId('task'), create_time: new Date().toISOString() },
+      })],
+      ['PUT', /^\/interactions\/([^/]+)$/, () => ({ status: 200 })],
+    ];
+  }
+
+  private issueToken(request: RecordedRequest): ScriptedResponse {
+    if (request.body?.appId !== this.options.appId || request.body?.clientSecret !== this.options.appSecret) {
+      return { status: 401, body: { code: 100016, message: 'invalid appid or secret' } };
+    }
+
+    const token = this.generateId('token');
+    this.tokens.set(token, Date.now() + this.options.tokenTtlSeconds * 1000);
+    // The real endpoint returns expires_in as a string
+    return { status: 200, body: { access_token: token, expires_in: String(this.options.tokenTtlSeconds) } };
+  }
+
+  private isValidToken(token: string): boolean {
+    const expiresAt = this.tokens.get(token);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private recordMessage(scene: MessageScene, targetId: string, body: Record<string, unknown>): ScriptedResponse {
+    const message: SimulatedMessage = { id: this.generateId('msg'), scene, targetId, body };
+    this.messages.push(message);
+    this.emit('message', message);
+
+    if (scene === 'group' || scene === 'c2c') {
+      return { status: 200, body: { id: message.id, timestamp: Math.floor(Date.now() / 1000) } };
+    }
+    return { status: 200, body: this.channelMessageBody(message) };
+  }
+
+  private channelMessageBody(message: SimulatedMessage): Record<string, unknown> {
+    return {
+      id: message.id,
+      channel_id: message.targetId,
+      guild_id: this.channels.find((channel) => channel.id === message.targetId)?.guild_id ?? '',
+      content: message.body.content ?? '',
+      timestamp: new Date().toISOString(),
+      author: this.options.botUser,
+    };
+  }
+
+  private respond(res: ServerResponse, response: ScriptedResponse): void {
+    const headers: Record<string, string> = { ...response.headers };
+    if (response.status >= 400) headers['x-tps-trace-id'] = randomUUID();
+
+    if (response.body === undefined) {
+      res.writeHead(response.status, headers);
+      res.end();
+      return;
+    }
+
+    res.writeHead(response.status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+}
+
+/**
+ * Resolve once the condition holds, polling every few milliseconds
+ */
+export async function waitUntil(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out after ${timeoutMs}ms waiting for condition`);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Read a JSON or multipart request body, file parts are described instead of kept
+ */
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown> | undefined> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const data = Buffer.concat(chunks);
+  if (data.length === 0) return undefined;
+
+  const contentType = req.headers['content-type'] ?? '';
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await new Response(data, { headers: { 'content-type': contentType } }).formData();
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of form.entries()) {
+      fields[key] = typeof value === 'string'
+        ? value
+        : { filename: value.name, size: value.size, type: value.type };
+    }
+    return fields;
+  }
+
+  try {
+    return JSON.parse(data.toString('utf8')) as Record<string, unknown>;
+  } catch {
+    return { raw: data.toString('utf8') };
+  }
+}
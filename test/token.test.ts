@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { QQApiError } from '../src/api/errors.js';
+import { TokenManager } from '../src/api/token.js';
+
+// Token endpoint that answers with whatever body the test sets, or a new token per request
+let responseBody: unknown = {};
+let requestCount = 0;
+const server = createServer((_, res) => {
+  requestCount += 1;
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(responseBody ?? { access_token: `token-${requestCount}`, expires_in: '7200' }));
+});
+
+let tokenEndpoint: string;
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  tokenEndpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/app/getAppAccessToken`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+test('rejects a token response without a usable expires_in', async () => {
+  for (const expiresIn of [undefined, 'soon', '0', -5]) {
+    responseBody = { access_token: 'token-1', expires_in: expiresIn };
+    const manager = new TokenManager({ appId: 'test-app', appSecret: 'test-secret', tokenEndpoint });
+    await assert.rejects(manager.getToken(), (error) => error instanceof QQApiError && /expires_in/.test(error.message));
+    manager.stop();
+  }
+});
+
+test('accepts expires_in sent as a string', async () => {
+  responseBody = { access_token: 'token-2', expires_in: '7200' };
+  const manager = new TokenManager({ appId: 'test-app', appSecret: 'test-secret', tokenEndpoint });
+  const requestsBefore = requestCount;
+  assert.equal(await manager.getToken(), 'token-2');
+  // Still fresh, so the second call does not request a new one
+  assert.equal(await manager.getToken(), 'token-2');
+  assert.equal(requestCount, requestsBefore + 1);
+  manager.stop();
+});
+
+test('shares one request between concurrent callers', async () => {
+  responseBody = undefined;
+  const manager = new TokenManager({ appId: 'test-app', appSecret: 'test-secret', tokenEndpoint });
+  const requestsBefore = requestCount;
+
+  const tokens = await Promise.all([manager.getToken(), manager.getToken(), manager.getToken(true)]);
+  assert.equal(requestCount, requestsBefore + 1);
+  assert.equal(new Set(tokens).size, 1);
+  manager.stop();
+});
+
+test('refreshes a rejected token once and ignores rejections of replaced tokens', async () => {
+  responseBody = undefined;
+  const manager = new TokenManager({ appId: 'test-app', appSecret: 'test-secret', tokenEndpoint });
+  const rotations: string[] = [];
+  manager.onRotated((token) => rotations.push(token));
+
+  const rejected = await manager.getToken();
+  const requestsBefore = requestCount;
+
+  // A burst of 401s with the same token triggers a single refresh
+  const [renewed, again] = await Promise.all([manager.invalidate(rejected), manager.invalidate(rejected)]);
+  assert.equal(renewed, again);
+  assert.notEqual(renewed, rejected);
+  assert.equal(requestCount, requestsBefore + 1);
+
+  // A late 401 for the old token does not refresh again
+  assert.equal(await manager.invalidate(rejected), renewed);
+  assert.equal(requestCount, requestsBefore + 1);
+  assert.deepEqual(rotations, [rejected, renewed]);
+  manager.stop();
+});